@@ -1,45 +1,84 @@
 import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
 import JSZip from 'jszip';
 import Sortable from 'sortablejs';
-import { AppSettings, DEFAULT_SETTINGS, ImageData } from './types';
-import { drawAsync, parseMaskIndices, calculateCellDimensions } from './utils/canvasUtils';
-import { IOSCard, IOSButton, IOSToggle, Accordion, SettingRow } from './components/UIComponents';
-import { saveImageToDB, saveBatchImagesToDB, getImageFromDB, deleteImageFromDB, clearImagesDB } from './utils/storage';
-
-const SETTINGS_KEY = 'puzzleSettings_Ultimate_V3_React';
-const IMAGES_META_KEY = 'puzzleImages_Metadata_V3';
+import { AppSettings, CaptionSource, DEFAULT_SETTINGS, FitMode, LayoutMode, MaskRule, NumberStyle, ImageCrop, ImageData, ImageMeta, Preset, Project } from './types';
+import { drawAsync, calculateCellDimensions, coverRect, toDrawItem, measureImage, orientedSize, drawOriented, transformCss, reorient, OrientOp } from './utils/canvasUtils';
+import { renderSheets, RenderJob } from './utils/renderPool';
+import { IOSCard, IOSButton, IOSToggle, Accordion, SettingRow, ActionSheet } from './components/UIComponents';
+import { ProjectManager } from './components/ProjectManager';
+import { PresetPanel } from './components/PresetPanel';
+import { DuplicateReview } from './components/DuplicateReview';
+import { CropEditor } from './components/CropEditor';
+import {
+  createId, saveImageToDB, saveBatchImagesToDB, getImageFromDB, deleteBatchImagesFromDB,
+  getAllProjectsFromDB, getProjectFromDB, saveProjectToDB, getAllPresetsFromDB, savePresetToDB, deletePresetFromDB
+} from './utils/storage';
+import { SettingsSection, applyPreset, presetFromSettings } from './utils/presets';
+import { ARCHIVE_EXTENSION, exportArchive, importArchive } from './utils/archive';
+import { AssetRegistry, newProject, toImageMeta, toStoredSettings, restoreSettings, registerAsset, loadProjectImages, duplicateProject, deleteProjectData, holdTabLock, purgeOrphanImages } from './utils/projects';
+import { hashImageUrl } from './utils/phash';
+import { readCaptureTime } from './utils/exif';
+import { SORT_MODES, SortMode, sortImages } from './utils/sort';
+import { LAYOUT_MODES, SheetLayout, imageRatio, layoutSheets, usesImageRatios } from './utils/layout';
+import { BUILT_IN_TEMPLATES, getTemplate, orderForTemplate } from './utils/templates';
+import { NUMBER_STYLES, formatNumber } from './utils/numbering';
+import { CAPTION_SOURCES, compileCaptionRegex, resolveCaption } from './utils/captions';
+import { OVERLAY_ANCHORS, OVERLAY_PLACEMENTS } from './utils/overlay';
+import { SHEET_BAND_POSITIONS } from './utils/sheetBand';
+import { PDF_PAGE_SIZES, buildPdf } from './utils/pdf';
+import { GIF_SOURCES, drawImageFrame, drawSheetFrame, encodeGif } from './utils/gif';
+import { EXPORT_FORMATS, encodeCanvas, exportFormatInfo, extensionOf, formatBytes, resolveExportFormat } from './utils/exportFormats';
+import { maskQueryContextOf, parseMaskQuery } from './utils/maskQuery';
+import { MASK_MODES, coversImage, createMaskRule, drawMaskRule, resolveMaskTargets } from './utils/maskRules';
+import { EMPTY_HISTORY, HistoryState, Snapshot, pushHistory, undoHistory, redoHistory, releasedImages, liveImageIds } from './utils/history';
+
+const ACTIVE_PROJECT_KEY = 'puzzleActiveProject_V1';
+const DEFAULT_PROJECT_NAME = '默认项目';
+const FIT_LABELS: Record<string, string> = { default: '跟随全局', contain: '完整显示', cover: '裁剪填充' };
 
 // --- Optimized Sub-components ---
 
 // Memoized Thumbnail to prevent re-rendering entire grid when one item changes
-const ThumbnailItem = memo(({ img, index, onMouseUp }: { img: ImageData; index: number; onMouseUp: (idx: number) => void }) => {
+const ThumbnailItem = memo(({ img, index, selected, onMouseUp }: { img: ImageData; index: number; selected?: boolean; onMouseUp: (idx: number) => void }) => {
     return (
         <div 
-            className="relative aspect-square rounded-xl overflow-hidden bg-gray-100 border border-gray-100 thumbnail-item active:opacity-80 transition cursor-grab active:cursor-grabbing will-change-transform"
+            className={`relative aspect-square rounded-xl overflow-hidden bg-gray-100 border thumbnail-item active:opacity-80 transition cursor-grab active:cursor-grabbing will-change-transform ${selected ? 'border-[#007AFF] ring-2 ring-[#007AFF]' : 'border-gray-100'}`}
             onMouseUp={() => onMouseUp(index)}
         >
             <img 
                 src={img.url} 
-                className="w-full h-full object-cover pointer-events-none select-none" 
+                className={`w-full h-full ${img.fit === 'contain' ? 'object-contain' : 'object-cover'} pointer-events-none select-none`} 
+                style={{ transform: transformCss(img.transform) }}
                 loading="lazy" 
                 decoding="async"
                 alt="" 
             />
+            {img.crop && <span className="absolute top-1 right-1 bg-black/50 text-white text-[9px] px-1 rounded pointer-events-none">✂</span>}
+            {img.hero && <span className="absolute top-1 left-1 bg-[#FF9500] text-white text-[9px] px-1 rounded pointer-events-none">★</span>}
+            {selected && <span className="absolute bottom-1 right-1 w-5 h-5 rounded-full bg-[#007AFF] text-white text-[11px] flex items-center justify-center pointer-events-none">✓</span>}
         </div>
     );
-}, (prev, next) => prev.img.id === next.img.id && prev.index === next.index);
+}, (prev, next) => prev.img === next.img && prev.index === next.index && prev.selected === next.selected); // Metadata edits (crop, rotate) replace the object
 
 export default function App() {
   // State
   const [images, setImages] = useState<ImageData[]>([]);
-  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettingsState] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isGenerating, setIsGenerating] = useState(false);
   const [progressText, setProgressText] = useState('');
   const [generatedBlobs, setGeneratedBlobs] = useState<Blob[]>([]);
+  const [exportNotice, setExportNotice] = useState(''); // Format fallback of the last generate
   const [resultsOpen, setResultsOpen] = useState(false);
-  const [showModal, setShowModal] = useState<'none' | 'preview' | 'note' | 'reset' | 'update'>('none');
+  const [showModal, setShowModal] = useState<'none' | 'preview' | 'note' | 'reset' | 'update' | 'projects' | 'duplicates' | 'imageActions' | 'crop' | 'sort'>('none');
   const [previewSrc, setPreviewSrc] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [activeMaskRuleId, setActiveMaskRuleId] = useState<string | null>(null);
   
   // Refs
   const gridRef = useRef<HTMLDivElement>(null);
@@ -51,57 +90,149 @@ export default function App() {
   const isCancelledRef = useRef(false);
   const targetImageIndex = useRef<number>(-1);
   const stickerCanvasRef = useRef<HTMLCanvasElement>(null);
+  const maskAreaDragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const assetIdsRef = useRef<AssetRegistry>(new Map());
+  const isHashingRef = useRef(false);
+  const hasPurgedRef = useRef(false);
+
+  // Latest state for history bookkeeping; Sortable and key handlers are bound only once
+  const imagesRef = useRef(images);
+  const settingsRef = useRef(settings);
+  const historyRef = useRef(history);
+  const selectModeRef = useRef(selectMode);
+  imagesRef.current = images;
+  selectModeRef.current = selectMode;
+  settingsRef.current = settings;
+  historyRef.current = history;
   
+  // The mask rule being edited; falls back to the first one
+  const activeMaskRule = settings.maskRules.find(r => r.id === activeMaskRuleId) ?? settings.maskRules[0];
+
   // Refs for drawing images to prevent flickering
   const bgImgRef = useRef<HTMLImageElement | null>(null);
   const stickerImgRef = useRef<HTMLImageElement | null>(null);
 
   // --- Initialization & Effects ---
 
+  // --- Undo / Redo ---
+
+  const currentSnapshot = (): Snapshot => ({ images: imagesRef.current, settings: settingsRef.current });
+
+  // Blobs are only deleted once no undo step can bring their image back
+  const commitHistory = (next: HistoryState, dropped: Snapshot[]) => {
+      historyRef.current = next;
+      setHistory(next);
+      const released = releasedImages(dropped, next, currentSnapshot());
+      if (!released.length) return;
+      released.forEach(i => URL.revokeObjectURL(i.url));
+      deleteBatchImagesFromDB(released.map(i => i.id)).catch(e => console.error("Delete from DB failed", e));
+  };
+
+  // Call right before mutating images/settings to make the change undoable
+  const recordHistory = (label: string, coalesce = false) => {
+      const { history: next, dropped } = pushHistory(historyRef.current, currentSnapshot(), label, coalesce);
+      commitHistory(next, dropped);
+  };
+
+  const clearHistory = () => {
+      const { past, future } = historyRef.current;
+      commitHistory(EMPTY_HISTORY, [...past, ...future].map(e => e.snapshot));
+  };
+
+  const restoreSnapshot = (result: { history: HistoryState; snapshot: Snapshot } | null) => {
+      if (!result) return;
+      historyRef.current = result.history;
+      setHistory(result.history);
+      imagesRef.current = result.snapshot.images;
+      settingsRef.current = result.snapshot.settings;
+      setImages(result.snapshot.images);
+      setSettingsState(result.snapshot.settings);
+  };
+
+  const undo = () => restoreSnapshot(undoHistory(historyRef.current, currentSnapshot()));
+  const redo = () => restoreSnapshot(redoHistory(historyRef.current, currentSnapshot()));
+
+  // Every user-facing settings change goes through here so it lands in the history
+  const setSettings = (update: React.SetStateAction<AppSettings>) => {
+      const prev = settingsRef.current;
+      const next = typeof update === 'function' ? update(prev) : update;
+      const changed = (Object.keys(next) as (keyof AppSettings)[]).filter(k => next[k] !== prev[k]);
+      if (!changed.length) return;
+      recordHistory(`settings:${changed.join(',')}`, true);
+      settingsRef.current = next;
+      setSettingsState(next);
+  };
+
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+          // Leave native undo alone while typing
+          const target = e.target as HTMLElement | null;
+          if (target?.closest('textarea, [contenteditable], input[type=text], input[type=number], input:not([type])')) return;
+          e.preventDefault();
+          if (e.shiftKey) redo();
+          else undo();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const refreshProjects = async () => {
+      const list = await getAllProjectsFromDB();
+      setProjects(list.sort((a, b) => a.createdAt - b.createdAt));
+      return list;
+  };
+
+  const refreshPresets = async () => {
+      const list = await getAllPresetsFromDB();
+      setPresets(list.sort((a, b) => a.createdAt - b.createdAt));
+  };
+
+  const openProject = async (project: Project) => {
+      const [loadedImages, loadedSettings] = await Promise.all([
+          loadProjectImages(project.images),
+          restoreSettings(project.settings, assetIdsRef.current)
+      ]);
+      setActiveProjectId(project.id);
+      setImages(loadedImages);
+      setSettingsState(loadedSettings);
+      setGeneratedBlobs([]);
+      setResultsOpen(false);
+      localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+  };
+
+  const persistProject = async (id: string, imgs: ImageData[], s: AppSettings) => {
+      const record = await getProjectFromDB(id);
+      if (!record) return;
+      await saveProjectToDB({
+          ...record,
+          images: imgs.map(toImageMeta),
+          settings: toStoredSettings(s, assetIdsRef.current),
+          updatedAt: Date.now()
+      });
+  };
+
   useEffect(() => {
     const loadData = async () => {
-        // 1. Load settings
-        const savedSettings = localStorage.getItem(SETTINGS_KEY);
-        if (savedSettings) {
-          try {
-            setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) });
-          } catch (e) {
-            console.error("Failed to load settings", e);
-          }
+        await holdTabLock();
+
+        // 1. Load projects (v1 data is migrated into a default project on DB upgrade)
+        let list = await refreshProjects();
+        if (list.length === 0) {
+            const first = newProject(DEFAULT_PROJECT_NAME);
+            await saveProjectToDB(first);
+            list = await refreshProjects();
         }
 
-        // 2. Load Images from IndexedDB (Lazy load if massive?)
-        const savedMeta = localStorage.getItem(IMAGES_META_KEY);
-        if (savedMeta) {
-            try {
-                const metaList: {id: string, name: string, size: number}[] = JSON.parse(savedMeta);
-                const loadedImages: ImageData[] = [];
-                
-                // Process in chunks to avoid blocking UI on load
-                const chunkSize = 50;
-                for (let i = 0; i < metaList.length; i += chunkSize) {
-                    const chunk = metaList.slice(i, i + chunkSize);
-                    await Promise.all(chunk.map(async (meta) => {
-                        try {
-                            const blob = await getImageFromDB(meta.id);
-                            if (blob) {
-                                loadedImages.push({ ...meta, url: URL.createObjectURL(blob) });
-                            }
-                        } catch (err) { /* ignore missing */ }
-                    }));
-                    
-                    await new Promise(r => setTimeout(r, 0));
-                }
-                
-                const imageMap = new Map(loadedImages.map(img => [img.id, img]));
-                const sortedImages = metaList
-                    .map(meta => imageMap.get(meta.id))
-                    .filter((img): img is ImageData => !!img);
-
-                setImages(sortedImages);
-            } catch (e) {
-                console.error("Failed to load image metadata", e);
-            }
+        refreshPresets();
+
+        // 2. Open the last active project, else the most recently edited one
+        const savedActive = localStorage.getItem(ACTIVE_PROJECT_KEY);
+        const active = list.find(p => p.id === savedActive) || list.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+        try {
+            await openProject(active);
+        } catch (e) {
+            console.error("Failed to load project", e);
         }
         
         // 3. Check update modal
@@ -115,19 +246,45 @@ export default function App() {
     loadData();
   }, []);
 
-  // Save Settings
+  // Save active project (debounced: sliders fire on every tick)
   useEffect(() => {
-    if (isLoaded) {
-        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-    }
-  }, [settings, isLoaded]);
-
-  // Save Image Metadata
+      if (!isLoaded || !activeProjectId) return;
+      const timer = setTimeout(() => {
+          persistProject(activeProjectId, images, settings).then(() => {
+              // Once, after the first save: drop blobs left behind by deletions whose undo history
+              // died with the last session. Anything imported since is saved or still in memory.
+              if (hasPurgedRef.current) return;
+              hasPurgedRef.current = true;
+              purgeOrphanImages(() => liveImageIds(historyRef.current, currentSnapshot())).catch(e => console.warn("Orphan cleanup failed", e));
+          }).catch(e => console.error("Project save failed", e));
+      }, 300);
+      return () => clearTimeout(timer);
+  }, [images, settings, activeProjectId, isLoaded]);
+
+  // Perceptual hashes: computed in the background for anything imported, restored or loaded without one
   useEffect(() => {
-      if (isLoaded) {
-          const metaToSave = images.map(({ id, name, size }) => ({ id, name, size }));
-          localStorage.setItem(IMAGES_META_KEY, JSON.stringify(metaToSave));
-      }
+      if (!isLoaded || isHashingRef.current || !images.some(i => i.hash === undefined)) return;
+      isHashingRef.current = true;
+
+      const HASH_BATCH = 20;
+      const attempted = new Set<string>();
+      (async () => {
+          try {
+              while (true) {
+                  const batch = imagesRef.current.filter(i => i.hash === undefined && !attempted.has(i.id)).slice(0, HASH_BATCH);
+                  if (!batch.length) break;
+                  const hashes = new Map<string, string | null>();
+                  for (const img of batch) {
+                      attempted.add(img.id);
+                      hashes.set(img.id, await hashImageUrl(img.url));
+                  }
+                  setImages(prev => prev.map(i => (hashes.has(i.id) ? { ...i, hash: hashes.get(i.id) } : i)));
+                  await new Promise(r => setTimeout(r, 0));
+              }
+          } finally {
+              isHashingRef.current = false;
+          }
+      })();
   }, [images, isLoaded]);
 
   useEffect(() => {
@@ -141,6 +298,7 @@ export default function App() {
         onEnd: (evt) => {
           const { oldIndex, newIndex } = evt;
           if (oldIndex !== undefined && newIndex !== undefined && oldIndex !== newIndex) {
+            recordHistory('reorder');
             setImages(prev => {
               const newItems = [...prev];
               const [removed] = newItems.splice(oldIndex, 1);
@@ -153,29 +311,24 @@ export default function App() {
     }
   }, [images.length]); 
 
+  // Taps select instead of drag-sorting while picking images
+  useEffect(() => { sortableInstance.current?.option('disabled', selectMode); }, [selectMode, images.length]);
+
   // --- Sticker Preview Logic (Anti-flicker) ---
 
   const drawPreviewContent = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
       ctx.clearRect(0, 0, w, h);
       if (bgImgRef.current) {
           const img = bgImgRef.current;
-          const sRatio = img.width / img.height;
-          const cRatio = w / h;
-          if(sRatio > cRatio) ctx.drawImage(img, (img.width - img.height*cRatio)/2, 0, img.height*cRatio, img.height, 0, 0, w, h);
-          else ctx.drawImage(img, 0, (img.height - img.width/cRatio)/2, img.width, img.width/cRatio, 0, 0, w, h);
+          const first = imagesRef.current[0];
+          const oriented = orientedSize(img.width, img.height, first?.transform);
+          const { dx, dy, dw, dh } = coverRect(oriented.w, oriented.h, w, h, first?.crop);
+          drawOriented(ctx, img, dx, dy, dw, dh, first?.transform);
       } else {
           ctx.fillStyle = '#f0f0f0'; ctx.fillRect(0,0,w,h); 
           ctx.fillStyle = '#ccc'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle'; ctx.fillText('无图', w/2, h/2);
       }
-      if (stickerImgRef.current) {
-          const img = stickerImgRef.current;
-          const sizePct = settings.stickerSize / 100;
-          const sw = w * sizePct;
-          const sh = sw * (img.height / img.width);
-          const dx = (w * settings.stickerX / 100) - sw/2;
-          const dy = (h * settings.stickerY / 100) - sh/2;
-          ctx.drawImage(img, dx, dy, sw, sh);
-      }
+      if (activeMaskRule) drawMaskRule(ctx, activeMaskRule, stickerImgRef.current, 0, 0, w, h);
   };
 
   const drawStickerPreview = () => {
@@ -183,10 +336,20 @@ export default function App() {
       if (!canvas) return;
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
-      const w = 300, h = 300;
+      // Same shape as a cell, so a picked area means the same thing here and in the export
+      const w = 300, h = Math.round(300 / getRatio());
       if (canvas.width !== w) canvas.width = w;
       if (canvas.height !== h) canvas.height = h;
       drawPreviewContent(ctx, w, h);
+      const area = activeMaskRule && coversImage(activeMaskRule.mode) ? activeMaskRule.area : null;
+      if (area) {
+          ctx.save();
+          ctx.setLineDash([6, 4]);
+          ctx.strokeStyle = '#007AFF';
+          ctx.lineWidth = 2;
+          ctx.strokeRect(area.x * w, area.y * h, area.w * w, area.h * h);
+          ctx.restore();
+      }
   };
 
   useEffect(() => {
@@ -203,17 +366,18 @@ export default function App() {
   }, [images.length > 0 ? images[0].url : null]);
 
   useEffect(() => {
-    if (settings.stickerImgUrl) {
+    const url = activeMaskRule?.stickerImgUrl;
+    if (url) {
       const img = new Image();
-      img.src = settings.stickerImgUrl;
+      img.src = url;
       img.onload = () => { stickerImgRef.current = img; drawStickerPreview(); };
     } else {
       stickerImgRef.current = null;
       drawStickerPreview();
     }
-  }, [settings.stickerImgUrl]);
+  }, [activeMaskRule?.stickerImgUrl]);
 
-  useEffect(() => { drawStickerPreview(); }, [settings.stickerSize, settings.stickerX, settings.stickerY]);
+  useEffect(() => { drawStickerPreview(); }, [activeMaskRule, images[0]?.crop, images[0]?.transform, settings.aspectRatio, settings.isCustomRatio, settings.customW, settings.customH]);
 
   const enlargeStickerPreview = () => {
       const w = 600;
@@ -228,6 +392,44 @@ export default function App() {
       setShowModal('preview');
   };
 
+  // Dragging on the preview picks the area a blur/mosaic/fill rule covers; a plain tap enlarges it
+  const previewPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const canvas = e.currentTarget;
+      const rect = canvas.getBoundingClientRect();
+      // The canvas is drawn object-contain inside its box
+      const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+      const dw = canvas.width * scale, dh = canvas.height * scale;
+      const clamp = (v: number) => Math.min(1, Math.max(0, v));
+      return {
+          x: clamp((e.clientX - rect.left - (rect.width - dw) / 2) / dw),
+          y: clamp((e.clientY - rect.top - (rect.height - dh) / 2) / dh)
+      };
+  };
+
+  const handlePreviewPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.stopPropagation();
+      if (!activeMaskRule || !coversImage(activeMaskRule.mode)) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      maskAreaDragRef.current = { ...previewPoint(e), moved: false };
+  };
+
+  const handlePreviewPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const start = maskAreaDragRef.current;
+      if (!start || !activeMaskRule) return;
+      const p = previewPoint(e);
+      if (!start.moved && Math.abs(p.x - start.x) + Math.abs(p.y - start.y) < 0.03) return;
+      start.moved = true;
+      updateMaskRule(activeMaskRule.id, {
+          area: { x: Math.min(start.x, p.x), y: Math.min(start.y, p.y), w: Math.abs(p.x - start.x), h: Math.abs(p.y - start.y) }
+      });
+  };
+
+  const handlePreviewPointerUp = () => {
+      const moved = maskAreaDragRef.current?.moved;
+      maskAreaDragRef.current = null;
+      if (!moved) enlargeStickerPreview();
+  };
+
   // --- Optimized File Handling ---
 
   const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -240,10 +442,12 @@ export default function App() {
     
     // Clear input immediately
     if (fileInputRef.current) fileInputRef.current.value = '';
+    recordHistory('import'); // One undo step for the whole import, not per chunk
 
     // Optimized chunk processing
     // Decouple DB writes from UI updates to avoid IO blocking the main thread
     const CHUNK_SIZE = 40; 
+    const importStart = Date.now();
     let processedCount = 0;
 
     const processNextChunk = async (startIndex: number) => {
@@ -263,13 +467,14 @@ export default function App() {
         // Fast enough for 40 items
         for (const file of chunk) {
             if (file.type.startsWith('image/') || file.name.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
-                const id = Math.random().toString(36).substr(2, 9) + Date.now() + Math.random();
+                const id = createId();
                 batchDBItems.push({ id, blob: file });
                 chunkImages.push({
                     id,
                     url: URL.createObjectURL(file),
                     name: file.name,
-                    size: file.size
+                    size: file.size,
+                    addedAt: importStart + processedCount + chunkImages.length
                 });
             }
         }
@@ -294,59 +499,110 @@ export default function App() {
   const handleReplace = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length || targetImageIndex.current === -1) return;
     const file = e.target.files[0];
-    const newUrl = URL.createObjectURL(file);
     const targetIndex = targetImageIndex.current;
-    const oldImage = images[targetIndex];
+    // New id: the old blob must survive in IndexedDB for undo
+    const newId = createId();
 
-    saveImageToDB(oldImage.id, file).catch(e => console.error("Replace in DB failed", e));
+    saveImageToDB(newId, file).catch(e => console.error("Replace in DB failed", e));
+    recordHistory('replace');
     setImages(prev => {
         const copy = [...prev];
-        const old = copy[targetIndex];
-        URL.revokeObjectURL(old.url);
-        copy[targetIndex] = { ...old, url: newUrl, name: file.name, size: file.size };
+        copy[targetIndex] = { ...copy[targetIndex], id: newId, url: URL.createObjectURL(file), name: file.name, size: file.size, hash: undefined, takenAt: undefined };
         return copy;
     });
     if (replaceInputRef.current) replaceInputRef.current.value = '';
   };
 
+  // Blob stays in IndexedDB until the undo step expires (see commitHistory)
   const handleDelete = (index: number) => {
-      const imgToDelete = images[index];
-      // Optimistic Update
+      recordHistory('delete');
       setImages(prev => {
           const copy = [...prev];
-          URL.revokeObjectURL(copy[index].url);
           copy.splice(index, 1);
           return copy;
       });
-      deleteImageFromDB(imgToDelete.id).catch(e => console.error("Delete from DB failed", e));
+  };
+
+  // Non-destructive per-image edits (crop, rotate, ...): only the metadata changes, so undo is cheap
+  const updateImagesMeta = (ids: Set<string>, patch: (img: ImageData) => Partial<ImageMeta>, label: string) => {
+      if (!ids.size) return;
+      recordHistory(label);
+      setImages(prev => prev.map(img => ids.has(img.id) ? { ...img, ...patch(img) } : img));
+  };
+
+  const updateImageMeta = (id: string, patch: Partial<ImageMeta>, label: string) => updateImagesMeta(new Set([id]), () => patch, label);
+
+  const orientImages = (ids: Set<string>, op: OrientOp) => updateImagesMeta(ids, img => reorient(img, op), 'orient');
+
+  const exitSelectMode = () => {
+      setSelectMode(false);
+      setSelectedIds(new Set());
+  };
+
+  const handleCropSave = (crop: ImageCrop | undefined) => {
+      const img = images[targetImageIndex.current];
+      if (img) updateImageMeta(img.id, { crop }, 'crop');
+      setShowModal('none');
+  };
+
+  // Per-image fit override cycles: follow settings -> contain -> cover
+  const cycleImageFit = (img: ImageData) => {
+      const next: FitMode | undefined = img.fit === undefined ? 'contain' : img.fit === 'contain' ? 'cover' : undefined;
+      updateImageMeta(img.id, { fit: next }, 'fit');
   };
 
   const handleThumbnailClick = useCallback((index: number) => {
-      targetImageIndex.current = index;
-      const img = images[index];
-      if(window.confirm(`操作图片 "${img.name}" ?\n\n[确定] = 替换\n[取消] = 删除`)) {
-          replaceInputRef.current?.click();
-      } else {
-          handleDelete(index);
+      if (selectModeRef.current) {
+          const id = imagesRef.current[index]?.id;
+          if (!id) return;
+          setSelectedIds(prev => {
+              const next = new Set(prev);
+              if (next.has(id)) next.delete(id); else next.add(id);
+              return next;
+          });
+          return;
       }
-  }, [images]); // Images dependency is needed to get correct name, but index is stable.
+      targetImageIndex.current = index;
+      setShowModal('imageActions');
+  }, []);
 
   const handleOverlayFile = (e: React.ChangeEvent<HTMLInputElement>) => {
       if (!e.target.files?.length) return;
-      const file = e.target.files[0];
-      const url = URL.createObjectURL(file);
+      const url = registerAsset(e.target.files[0], assetIdsRef.current);
       setSettings(s => ({ ...s, overlayImgUrl: url }));
       if (overlayInputRef.current) overlayInputRef.current.value = '';
   };
 
   const handleStickerFile = (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (!e.target.files?.length) return;
-      const file = e.target.files[0];
-      const url = URL.createObjectURL(file);
-      setSettings(s => ({ ...s, stickerImgUrl: url }));
+      if (!e.target.files?.length || !activeMaskRule) return;
+      const url = registerAsset(e.target.files[0], assetIdsRef.current);
+      updateMaskRule(activeMaskRule.id, { stickerImgUrl: url });
       if (stickerInputRef.current) stickerInputRef.current.value = '';
   };
 
+  // --- Mask Rules ---
+
+  const updateMaskRule = (id: string, patch: Partial<MaskRule>) =>
+      setSettings(s => ({ ...s, maskRules: s.maskRules.map(r => (r.id === id ? { ...r, ...patch } : r)) }));
+
+  const addMaskRule = () => {
+      const rule = createMaskRule({ name: `规则 ${settings.maskRules.length + 1}` });
+      setSettings(s => ({ ...s, maskRules: [...s.maskRules, rule] }));
+      setActiveMaskRuleId(rule.id);
+  };
+
+  const removeMaskRule = (id: string) => setSettings(s => ({ ...s, maskRules: s.maskRules.filter(r => r.id !== id) }));
+
+  // Rules draw in list order, so a later rule ends up on top
+  const moveMaskRule = (id: string, delta: number) => setSettings(s => {
+      const from = s.maskRules.findIndex(r => r.id === id);
+      const to = from + delta;
+      if (from < 0 || to < 0 || to >= s.maskRules.length) return s;
+      const maskRules = [...s.maskRules];
+      [maskRules[from], maskRules[to]] = [maskRules[to], maskRules[from]];
+      return { ...s, maskRules };
+  });
+
   const clearAll = async () => {
       if (window.confirm('确定清空?')) {
           isCancelledRef.current = true; // Stop ongoing imports/generation
@@ -354,12 +610,10 @@ export default function App() {
           setProgressText('正在清理...');
           await new Promise(r => setTimeout(r, 50)); // allow render
           
-          await clearImagesDB();
-          images.forEach(i => URL.revokeObjectURL(i.url));
+          recordHistory('clear');
           setImages([]);
           setGeneratedBlobs([]);
           setResultsOpen(false);
-          localStorage.removeItem(IMAGES_META_KEY);
           
           if(fileInputRef.current) fileInputRef.current.value = ''; // Ensure input is cleared
           
@@ -370,23 +624,198 @@ export default function App() {
   const removeDuplicates = async () => {
       const seen = new Set();
       const newImages: ImageData[] = [];
-      const idsToDelete: string[] = [];
 
       images.forEach(item => {
           const key = item.name + item.size;
-          if (seen.has(key)) {
-              idsToDelete.push(item.id);
-              URL.revokeObjectURL(item.url);
-          } else {
+          if (!seen.has(key)) {
               seen.add(key);
               newImages.push(item);
           }
       });
       
-      idsToDelete.forEach(id => deleteImageFromDB(id)); // Fire and forget
+      recordHistory('dedupe');
       setImages(newImages);
   };
 
+  const handleSort = async (mode: SortMode) => {
+      setShowModal('none');
+      if (imagesRef.current.length < 2) return;
+      const taken = new Map<string, number | null>();
+      if (mode === 'taken') {
+          const unread = imagesRef.current.filter(i => i.takenAt === undefined);
+          if (unread.length) {
+              setIsGenerating(true);
+              setProgressText('读取拍摄时间...');
+              try {
+                  // EXIF comes from the stored originals; results are cached on the image
+                  for (let k = 0; k < unread.length; k++) {
+                      const blob = await getImageFromDB(unread[k].id);
+                      taken.set(unread[k].id, blob ? await readCaptureTime(blob) : null);
+                      if (k % 20 === 19) setProgressText(`读取拍摄时间 ${k + 1} / ${unread.length}`);
+                  }
+              } finally {
+                  setIsGenerating(false);
+              }
+          }
+      }
+      // Re-read the latest list: images may have changed while EXIF was being read
+      const current = imagesRef.current.map(i => (taken.has(i.id) ? { ...i, takenAt: taken.get(i.id) } : i));
+      recordHistory(`sort:${mode}`);
+      setImages(sortImages(current, mode));
+  };
+
+  const removeSimilar = (ids: string[]) => {
+      const toRemove = new Set(ids);
+      recordHistory('dedupe');
+      setImages(prev => prev.filter(i => !toRemove.has(i.id)));
+      setShowModal('none');
+  };
+
+  // --- Projects ---
+
+  // Resolves true once `id` is the active project
+  const switchProject = async (id: string): Promise<boolean> => {
+      if (id === activeProjectId) return true;
+      const target = await getProjectFromDB(id);
+      if (!target) return false;
+
+      isCancelledRef.current = true; // Stop imports that would land in the wrong project
+      setIsGenerating(true);
+      setProgressText('正在切换项目...');
+      let switched = false;
+      try {
+          if (activeProjectId) await persistProject(activeProjectId, images, settings);
+          clearHistory();
+          exitSelectMode();
+          images.forEach(i => URL.revokeObjectURL(i.url));
+          assetIdsRef.current.forEach((_, url) => URL.revokeObjectURL(url));
+          assetIdsRef.current.clear();
+          await openProject(target);
+          switched = true;
+          await refreshProjects();
+      } catch (e: any) {
+          alert('切换失败: ' + e.message);
+      } finally {
+          setIsGenerating(false);
+      }
+      return switched;
+  };
+
+  const createProject = async () => {
+      const name = window.prompt('新项目名称', `项目 ${projects.length + 1}`);
+      if (!name?.trim()) return;
+      const project = newProject(name.trim());
+      await saveProjectToDB(project);
+      await switchProject(project.id);
+  };
+
+  const renameProject = async (id: string) => {
+      const record = await getProjectFromDB(id);
+      if (!record) return;
+      const name = window.prompt('重命名项目', record.name);
+      if (!name?.trim()) return;
+      await saveProjectToDB({ ...record, name: name.trim() });
+      await refreshProjects();
+  };
+
+  const copyProject = async (id: string) => {
+      setIsGenerating(true);
+      setProgressText('正在复制项目...');
+      try {
+          if (id === activeProjectId) await persistProject(id, images, settings);
+          const source = await getProjectFromDB(id);
+          if (!source) return;
+          const copy = await duplicateProject(source, `${source.name} 副本`);
+          await switchProject(copy.id);
+      } catch (e: any) {
+          alert('复制失败: ' + e.message);
+      } finally {
+          setIsGenerating(false);
+      }
+  };
+
+  const removeProject = async (id: string) => {
+      const record = await getProjectFromDB(id);
+      if (!record || !window.confirm(`删除项目 "${record.name}" ?\n其中的 ${record.images.length} 张图片将被永久删除。`)) return;
+
+      if (id === activeProjectId) {
+          let fallback = projects.find(p => p.id !== id);
+          if (!fallback) {
+              fallback = newProject(DEFAULT_PROJECT_NAME);
+              await saveProjectToDB(fallback);
+          }
+          // Deleting the project still on screen would leave its record pointing at deleted images
+          if (!await switchProject(fallback.id)) return alert('未能切换到其他项目，已取消删除');
+      }
+      await deleteProjectData(record);
+      await refreshProjects();
+  };
+
+  const exportProject = async () => {
+      if (!activeProjectId) return;
+      isCancelledRef.current = false;
+      setIsGenerating(true);
+      setProgressText('正在导出项目...');
+      try {
+          await persistProject(activeProjectId, images, settings);
+          const record = await getProjectFromDB(activeProjectId);
+          if (!record) return;
+          const archive = await exportArchive(record, presets, setProgressText);
+          if (!isCancelledRef.current) downloadBlob(archive, `${record.name}${ARCHIVE_EXTENSION}`);
+      } catch (e: any) {
+          alert('导出失败: ' + e.message);
+      } finally {
+          setIsGenerating(false);
+      }
+  };
+
+  const importProject = async (file: File) => {
+      setIsGenerating(true);
+      setProgressText('正在读取项目文件...');
+      try {
+          const project = await importArchive(file, setProgressText);
+          await refreshPresets();
+          await switchProject(project.id);
+          setShowModal('none');
+      } catch (e: any) {
+          alert('导入失败: ' + e.message);
+      } finally {
+          setIsGenerating(false);
+      }
+  };
+
+  // --- Presets ---
+
+  const handleApplyPreset = (preset: Preset, sections: SettingsSection[]) => {
+      setSettings(s => applyPreset(s, preset, sections));
+  };
+
+  const handleSavePreset = async () => {
+      const name = window.prompt('预设名称', `预设 ${presets.length + 1}`);
+      if (!name?.trim()) return;
+      await savePresetToDB(presetFromSettings(name.trim(), settings));
+      await refreshPresets();
+  };
+
+  const handleDeletePreset = async (id: string) => {
+      const preset = presets.find(p => p.id === id);
+      if (!preset || !window.confirm(`删除预设 "${preset.name}" ?`)) return;
+      await deletePresetFromDB(id);
+      await refreshPresets();
+  };
+
+  const resetProject = async () => {
+      setShowModal('none');
+      isCancelledRef.current = true;
+      clearHistory();
+      await deleteBatchImagesFromDB(images.map(i => i.id));
+      images.forEach(i => URL.revokeObjectURL(i.url));
+      setImages([]);
+      setSettingsState(DEFAULT_SETTINGS);
+      setGeneratedBlobs([]);
+      setResultsOpen(false);
+  };
+
   const getRatio = () => {
       if (settings.isCustomRatio) return (settings.customW || 1000) / (settings.customH || 1500);
       return settings.aspectRatio;
@@ -394,6 +823,40 @@ export default function App() {
 
   // --- Core Generation ---
 
+  // Templates put pinned (hero) images into their large cells; other layouts keep the list order
+  const arrangeForLayout = (list: ImageData[]): ImageData[] => {
+      if (settings.layoutMode !== 'template') return list;
+      return orderForTemplate(list.map(i => !!i.hero), getTemplate(settings.templateId)).map(k => list[k]);
+  };
+
+  // Sheets for an arranged list at export size; the mask targets resolve against these too
+  const layoutFor = (list: ImageData[]): SheetLayout[] => {
+      const template = getTemplate(settings.templateId);
+      // A template brings its own column count; one grid unit is one base cell
+      const cols = settings.layoutMode === 'template' ? template.cols : settings.cols;
+      const { cellW, cellH } = calculateCellDimensions(cols, getRatio(), settings.gap, settings.padding);
+      return layoutSheets(settings.layoutMode, list.map(imageRatio), {
+          cols, groupRows: settings.groupRows, cellW, cellH, gap: settings.gap, padding: settings.padding, template
+      });
+  };
+
+  // Ratio-aware layouts need every image's pixel size. Measured once and cached on the image
+  // (like hashes, outside the undo history).
+  const ensureImageSizes = async (): Promise<ImageData[]> => {
+      const missing = imagesRef.current.filter(i => !i.width || !i.height);
+      if (!missing.length) return imagesRef.current;
+      const sizes = new Map<string, { width: number; height: number }>();
+      for (let k = 0; k < missing.length; k++) {
+          if (isCancelledRef.current) break;
+          try { sizes.set(missing[k].id, await measureImage(missing[k].url)); } catch (e) { /* Undecodable: falls back to the base cell */ }
+          if (k % 20 === 19) setProgressText(`分析图片尺寸 ${k + 1} / ${missing.length}`);
+      }
+      const next = imagesRef.current.map(i => (sizes.has(i.id) ? { ...i, ...sizes.get(i.id) } : i));
+      imagesRef.current = next;
+      setImages(next);
+      return next;
+  };
+
   const generate = async (opType: 'normal' | 'repack' | 'apply' = 'normal') => {
       if (!images.length) return alert('请添加图片');
       
@@ -405,64 +868,59 @@ export default function App() {
       
       await new Promise(r => setTimeout(r, 50));
 
-      const ratio = getRatio();
-      const { cellW, cellH } = calculateCellDimensions(settings.cols, ratio, settings.gap);
-      
-      let targets = images.map(d => d.url);
-      const maskIndices = parseMaskIndices(settings.maskIndicesStr);
+      let source = arrangeForLayout(usesImageRatios(settings.layoutMode) ? await ensureImageSizes() : images);
+      if (isCancelledRef.current) return setIsGenerating(false);
+      // The layout strategy decides both the grouping into sheets and every cell's rect
+      let sheets = layoutFor(source);
+      let maskTargets = resolveMaskTargets(settings.maskRules, maskQueryContextOf(settings, sheets));
       
+      // Numbers refer to the arranged order, which is what the sheets show
       if (opType === 'repack') {
-          targets = targets.filter((_, i) => !maskIndices.includes(settings.startNumber + i));
+          const ruleIds = Object.keys(maskTargets);
+          const removed = new Set(settings.maskRules.filter(r => r.removeOnRepack && maskTargets[r.id]).flatMap(r => maskTargets[r.id]));
+          // Rules that stay follow their images to the new numbers
+          const kept = settings.maskRules.filter(r => !r.removeOnRepack && ruleIds.includes(r.id));
+          const keptImages = new Map<string, Set<string>>(kept.map(r => [r.id, new Set(maskTargets[r.id].map(n => source[n - settings.startNumber].id))]));
+          source = arrangeForLayout(source.filter((_, i) => !removed.has(settings.startNumber + i)));
+          sheets = layoutFor(source);
+          maskTargets = {};
+          keptImages.forEach((ids, ruleId) => {
+              maskTargets[ruleId] = source.flatMap((img, i) => (ids.has(img.id) ? [settings.startNumber + i] : []));
+          });
       }
+      const targets = source.map(toDrawItem);
 
-      let finalApplyMask = (opType === 'apply' || (opType === 'normal' && settings.maskIndicesStr.length > 0));
-      
-      // Calculate effective rows per group: use explicit setting or all-in-one
-      const effectiveGroupRows = settings.groupRows > 0 ? settings.groupRows : Math.ceil(targets.length / settings.cols);
-      const batchSize = settings.cols * effectiveGroupRows;
-      const totalBatches = Math.ceil(targets.length / batchSize);
+      const finalApplyMask = Object.keys(maskTargets).length > 0;
+      const totalBatches = sheets.length;
       
-      const blobs: Blob[] = [];
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) { setIsGenerating(false); return; }
-
       const qualityVal = settings.exportQuality > 100 ? 100 : settings.exportQuality;
-      const isPng = qualityVal === 100;
+      // Falls back (AVIF -> WebP -> JPEG) when the browser can't encode the chosen format
+      const format = await resolveExportFormat(settings.exportFormat);
+      setExportNotice(format.format === settings.exportFormat ? '' : `浏览器不支持 ${exportFormatInfo(settings.exportFormat).label}，已改用 ${format.label}`);
+
+      const jobs: RenderJob[] = sheets.map((layout, sheetIndex) => ({
+          images: targets.slice(layout.start, layout.start + layout.cells.length),
+          layout,
+          startNum: settings.startNumber,
+          sheetIndex,
+          sheetCount: totalBatches,
+          maskTargets,
+          settings,
+          applyMask: finalApplyMask,
+          // JPEG has no alpha, so a transparent background is backed with white
+          opaque: !format.alpha,
+          mimeType: format.mime,
+          quality: format.lossy ? qualityVal / 100 : undefined,
+          maxBytes: format.lossy && settings.exportTargetKB > 0 ? settings.exportTargetKB * 1024 : undefined,
+          fallbackMime: format.alpha ? 'image/png' : 'image/jpeg'
+      }));
 
       try {
-          for (let b = 0; b < totalBatches; b++) {
-              if (isCancelledRef.current) break;
-              setProgressText(`正在生成 ${b+1}/${totalBatches} 组...`);
-              await new Promise(r => setTimeout(r, 100)); // Yield
-              const currentImgs = targets.slice(b * batchSize, Math.min((b + 1) * batchSize, targets.length));
-              
-              await drawAsync({
-                  ctx,
-                  images: currentImgs,
-                  rows: Math.ceil(currentImgs.length / settings.cols),
-                  cols: settings.cols,
-                  w: cellW,
-                  h: cellH,
-                  gap: settings.gap,
-                  globalOffset: b * batchSize,
-                  startNum: settings.startNumber,
-                  maskIndices,
-                  settings,
-                  applyMask: finalApplyMask,
-                  isCancelled: () => isCancelledRef.current
-              });
-
-              if (isCancelledRef.current) break;
-
-              const blob = await new Promise<Blob | null>(resolve => 
-                canvas.toBlob(resolve, isPng ? 'image/png' : 'image/jpeg', isPng ? undefined : qualityVal / 100)
-              );
-              
-              if (blob) blobs.push(blob);
-              ctx.clearRect(0,0, canvas.width, canvas.height);
-              canvas.width = 1; canvas.height = 1; 
-          }
+          setProgressText(`正在生成 0/${totalBatches} 组...`);
+          const blobs = await renderSheets(jobs, {
+              isCancelled: () => isCancelledRef.current,
+              onProgress: ({ sheets, cells }) => setProgressText(`正在生成 ${sheets}/${totalBatches} 组 (${cells}/${targets.length} 张)...`)
+          });
 
           if (!isCancelledRef.current) {
               setGeneratedBlobs(blobs);
@@ -481,29 +939,42 @@ export default function App() {
   };
 
   const previewOverlay = async () => {
-    if (!images.length || !settings.overlayImgUrl) return alert('需有拼图图片和覆盖层图片');
+    if (!images.length || (!settings.overlayImgUrl && !settings.showWatermark && !settings.showBand)) return alert('需有拼图图片，以及覆盖层图片、文字水印或页眉页脚');
     setIsGenerating(true);
     setProgressText('生成预览...');
     try {
         const previewCanvas = document.createElement('canvas');
         const ctx = previewCanvas.getContext('2d')!;
         const ratio = getRatio();
-        const previewImgs = images.slice(0, 9).map(i => i.url);
-        while(previewImgs.length < 9 && images.length > 0) previewImgs.push(images[0].url);
+        const source = arrangeForLayout(usesImageRatios(settings.layoutMode) ? await ensureImageSizes() : images);
+        const template = getTemplate(settings.templateId);
+        const count = settings.layoutMode === 'template' ? template.cells.length : 9;
+        const previewImgs = source.slice(0, count);
+        while(previewImgs.length < count && source.length > 0) previewImgs.push(source[0]);
+        const cols = settings.layoutMode === 'template' ? template.cols : 3;
+        // Gap, padding, radius and border shrink alike in the small preview
+        const shrink = (px: number) => Math.max(0, Math.floor(px / 5));
+        const [layout] = layoutSheets(settings.layoutMode, previewImgs.map(imageRatio), {
+            cols, groupRows: 3, cellW: 200, cellH: Math.floor(200 / ratio), gap: shrink(settings.gap), padding: shrink(settings.padding), template
+        });
+        // Tiles keep their own pixel size, so shrink them as much as the preview shrinks the cells
+        const exportCellW = calculateCellDimensions(settings.layoutMode === 'template' ? template.cols : settings.cols, ratio, settings.gap, settings.padding).cellW;
+        const overlayScale = settings.overlayPlacement === 'tile' ? settings.overlayScale * 200 / exportCellW : settings.overlayScale;
 
         await drawAsync({
             ctx,
-            images: previewImgs,
-            rows: 3,
-            cols: 3,
-            w: 200, 
-            h: Math.floor(200 / ratio),
-            gap: Math.max(0, Math.floor(settings.gap / 5)),
-            globalOffset: 0,
+            images: previewImgs.slice(0, layout.cells.length).map(toDrawItem),
+            layout,
             startNum: 1,
-            maskIndices: [],
-            settings: { ...settings, showNum: false },
+            maskTargets: {},
+            settings: {
+                ...settings, showNum: false, overlayScale,
+                cellRadius: shrink(settings.cellRadius),
+                cellBorderWidth: settings.cellBorderWidth > 0 ? Math.max(1, shrink(settings.cellBorderWidth)) : 0,
+                bandHeight: shrink(settings.bandHeight)
+            },
             applyMask: false,
+            opaque: true,
             isCancelled: () => false
         });
         setPreviewSrc(previewCanvas.toDataURL('image/jpeg', 0.8));
@@ -525,7 +996,8 @@ export default function App() {
           const ctx = cvs.getContext('2d')!;
           ctx.drawImage(img, 0, 0, cvs.width, cvs.height);
           const q = settings.exportQuality > 100 ? 100 : settings.exportQuality;
-          setPreviewSrc(cvs.toDataURL(q === 100 ? 'image/png' : 'image/jpeg', q === 100 ? undefined : q / 100));
+          const format = await resolveExportFormat(settings.exportFormat);
+          setPreviewSrc(cvs.toDataURL(format.mime, format.lossy ? q / 100 : undefined));
           setShowModal('preview');
       } catch(e) { alert('预览失败'); } finally { setIsGenerating(false); }
   };
@@ -541,46 +1013,107 @@ export default function App() {
       setIsGenerating(true); setProgressText('打包 ZIP...');
       const zip = new JSZip();
       const folder = zip.folder("拼图分组");
-      const ext = settings.exportQuality === 100 ? 'png' : 'jpg';
-      generatedBlobs.forEach((blob, i) => { folder?.file(`拼图_Part_${i+1}.${ext}`, blob); });
+      generatedBlobs.forEach((blob, i) => { folder?.file(`拼图_Part_${i+1}.${extensionOf(blob)}`, blob); });
       try {
           const content = await zip.generateAsync({ type: "blob" });
           if (!isCancelledRef.current) downloadBlob(content, `拼图打包_${Date.now()}.zip`);
       } catch (e: any) { alert('打包失败: ' + e.message); } finally { setIsGenerating(false); }
   };
 
+  // JPEG sheets are embedded as they are; other formats are converted to JPEG for the PDF
+  const downloadPdf = async () => {
+      setIsGenerating(true); setProgressText(`生成 PDF 0/${generatedBlobs.length} 页...`);
+      try {
+          const pdf = await buildPdf(generatedBlobs, { pageSize: settings.pdfPageSize, margin: settings.pdfMargin }, count => setProgressText(`生成 PDF ${count}/${generatedBlobs.length} 页...`));
+          downloadBlob(pdf, `拼图_${Date.now()}.pdf`);
+      } catch (e: any) { alert('PDF 生成失败: ' + e.message); } finally { setIsGenerating(false); }
+  };
+
+  // Frames are drawn here and encoded in a worker; the progress pill's ✕ stops both
+  const exportGif = async () => {
+      const fromSheets = settings.gifSource === 'sheets';
+      if (fromSheets ? !generatedBlobs.length : !images.length) return alert(fromSheets ? '请先生成拼图' : '请先添加图片');
+      isCancelledRef.current = false;
+      setIsGenerating(true); setProgressText('准备 GIF...');
+      try {
+          const canvas = document.createElement('canvas');
+          const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+          const width = Math.max(16, Math.round(settings.gifWidth));
+          let height: number;
+          let count: number;
+          let drawFrame: (i: number) => Promise<void>;
+          if (fromSheets) {
+              const first = await createImageBitmap(generatedBlobs[0]);
+              height = Math.round(width * first.height / first.width);
+              first.close();
+              count = generatedBlobs.length;
+              drawFrame = i => drawSheetFrame(ctx, generatedBlobs[i], width, height);
+          } else {
+              // Same order and numbers as the sheets
+              const ratio = getRatio();
+              const source = arrangeForLayout(usesImageRatios(settings.layoutMode) ? await ensureImageSizes() : images);
+              const sheets = layoutFor(source);
+              const cells = sheets.flatMap(sheet => sheet.cells);
+              const maskTargets = resolveMaskTargets(settings.maskRules, maskQueryContextOf(settings, sheets));
+              height = Math.round(width / ratio);
+              count = source.length;
+              drawFrame = i => drawImageFrame(ctx, toDrawItem(source[i]), i, cells[i], width, height, settings, maskTargets);
+          }
+          const blob = await encodeGif(
+              count,
+              async i => { await drawFrame(i); return ctx.getImageData(0, 0, width, height); },
+              { width, height, loop: settings.gifLoop, dither: settings.gifDither, delay: settings.gifFrameMs },
+              {
+                  isCancelled: () => isCancelledRef.current,
+                  onProgress: ({ encoded }) => setProgressText(`生成 GIF ${encoded}/${count} 帧...`)
+              }
+          );
+          if (blob && !isCancelledRef.current) downloadBlob(blob, `拼图_${Date.now()}.gif`);
+      } catch (e: any) {
+          if (!isCancelledRef.current) alert('GIF 生成失败: ' + e.message);
+      } finally {
+          setIsGenerating(false);
+      }
+  };
+
   const combineAndDownload = async () => {
       if (images.length > 100) return alert('⚠️ 图片数量超过100张，禁止合并导出。请使用 ZIP。');
       setIsGenerating(true); setProgressText('合并中...');
       try {
           const bitmaps = await Promise.all(generatedBlobs.map(b => createImageBitmap(b)));
+          // Each sheet's height already includes its header / footer bands, so they stack edge to edge
           const totalH = bitmaps.reduce((sum, b) => sum + b.height, 0);
-          const maxW = bitmaps[0].width;
+          const maxW = Math.max(...bitmaps.map(b => b.width));
           if (maxW * totalH > 50000000) throw new Error('图片总像素过大'); // Simpler check
           const cvs = document.createElement('canvas');
           cvs.width = maxW; cvs.height = totalH;
           const ctx = cvs.getContext('2d')!;
           let y = 0;
           for (const bmp of bitmaps) { ctx.drawImage(bmp, 0, y); y += bmp.height; }
-          cvs.toBlob(blob => {
-              if(blob) downloadBlob(blob, `拼图_合并版_${Date.now()}.${settings.exportQuality===100?'png':'jpg'}`);
-              setIsGenerating(false);
-          }, settings.exportQuality===100 ? 'image/png' : 'image/jpeg', settings.exportQuality/100);
+          // Same format as the sheets; the size limit is per sheet, so it doesn't apply here
+          const mimeType = generatedBlobs[0].type || 'image/jpeg';
+          const blob = await encodeCanvas(cvs, { mimeType, quality: Math.min(100, settings.exportQuality) / 100, fallbackMime: 'image/png' });
+          if (blob) downloadBlob(blob, `拼图_合并版_${Date.now()}.${extensionOf(blob)}`);
+          setIsGenerating(false);
       } catch (e) { alert('合并失败，请使用ZIP'); setIsGenerating(false); }
   };
 
   const downloadParts = async () => {
       if (!confirm('即将逐张下载，请保持页面开启。确认？')) return;
       setIsGenerating(true);
-      const ext = settings.exportQuality === 100 ? 'png' : 'jpg';
       for (let i = 0; i < generatedBlobs.length; i++) {
           setProgressText(`下载第 ${i+1} / ${generatedBlobs.length} 张...`);
-          downloadBlob(generatedBlobs[i], `拼图_Part_${i+1}.${ext}`);
+          downloadBlob(generatedBlobs[i], `拼图_Part_${i+1}.${extensionOf(generatedBlobs[i])}`);
           if (i < generatedBlobs.length - 1) await new Promise(r => setTimeout(r, 1500));
       }
       setIsGenerating(false); alert('下载请求已发送完毕');
   };
 
+  // Live feedback for the mask rules: matched cell counts and the terms that didn't parse
+  // (Unmeasured images count with the base cell's ratio until the first generate measures them)
+  const maskContext = maskQueryContextOf(settings, layoutFor(arrangeForLayout(images)));
+  const maskQuery = activeMaskRule ? parseMaskQuery(activeMaskRule.target, maskContext) : null;
+
   return (
     <div className="pb-[200px]">
       <div 
@@ -595,8 +1128,18 @@ export default function App() {
 
       <header className="sticky top-0 z-50 bg-[#F2F2F7]/90 backdrop-blur-xl border-b border-gray-200/50">
         <div className="max-w-2xl mx-auto px-5 py-3 flex justify-between items-center h-[52px]">
-          <h1 className="text-[22px] font-bold tracking-tight text-black">拼图排序<span className="text-xs font-normal text-white bg-black px-1.5 py-0.5 rounded ml-1">Ultimate</span></h1>
+          <h1 className="text-[22px] font-bold tracking-tight text-black">拼图排序<span className="hidden sm:inline text-xs font-normal text-white bg-black px-1.5 py-0.5 rounded ml-1">Ultimate</span></h1>
           <div className="flex items-center gap-2">
+            <select
+              value={activeProjectId || ''}
+              onChange={e => e.target.value === '__manage' ? setShowModal('projects') : switchProject(e.target.value)}
+              className="max-w-[96px] truncate bg-gray-100 text-gray-700 text-[13px] font-bold px-3 py-1.5 rounded-full shadow-sm focus:outline-none appearance-none cursor-pointer"
+            >
+              {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              <option value="__manage">管理项目...</option>
+            </select>
+            <button onClick={undo} disabled={!history.past.length} title="撤销 (Ctrl+Z)" className="bg-gray-100 text-gray-500 text-[13px] font-bold w-8 h-8 rounded-full shadow-sm active:bg-gray-200 transition flex items-center justify-center disabled:opacity-30">↶</button>
+            <button onClick={redo} disabled={!history.future.length} title="重做 (Ctrl+Shift+Z)" className="bg-gray-100 text-gray-500 text-[13px] font-bold w-8 h-8 rounded-full shadow-sm active:bg-gray-200 transition flex items-center justify-center disabled:opacity-30">↷</button>
             <button onClick={() => setShowModal('reset')} className="bg-gray-100 text-gray-500 text-[13px] font-bold px-3 py-1.5 rounded-full shadow-sm active:bg-gray-200 transition flex items-center gap-1">
               重置
             </button>
@@ -630,7 +1173,7 @@ export default function App() {
                       </div>
                    )}
                    {images.map((img, idx) => (
-                       <ThumbnailItem key={img.id} img={img} index={idx} onMouseUp={handleThumbnailClick} />
+                       <ThumbnailItem key={img.id} img={img} index={idx} selected={selectMode && selectedIds.has(img.id)} onMouseUp={handleThumbnailClick} />
                    ))}
                 </div>
                 {(() => {
@@ -643,8 +1186,36 @@ export default function App() {
                    );
                    return null;
                 })()}
+                {selectMode && (
+                    <div className="mt-3 bg-[#007AFF]/5 rounded-lg p-2 flex flex-wrap items-center gap-1 text-[13px]">
+                        <span className="text-gray-500 px-2">已选 {selectedIds.size} 张</span>
+                        <button onClick={() => setSelectedIds(new Set(images.map(i => i.id)))} className="text-[#007AFF] px-2 py-1 rounded active:bg-blue-100">全选</button>
+                        <div className="flex-1" />
+                        {([['rotateCCW', '↺'], ['rotateCW', '↻'], ['flipH', '⇋'], ['flipV', '⇵']] as [OrientOp, string][]).map(([op, icon]) => (
+                            <button key={op} disabled={!selectedIds.size} onClick={() => orientImages(selectedIds, op)} className="w-8 h-8 rounded-lg bg-white text-[#007AFF] font-bold shadow-sm active:bg-blue-50 disabled:opacity-40">{icon}</button>
+                        ))}
+                    </div>
+                )}
                 {images.length > 0 && (
                     <div className="flex justify-end mt-3 mb-1 relative z-10">
+                        <button
+                            onClick={() => setShowModal('sort')}
+                            className="text-[#007AFF] text-[13px] font-bold py-2 px-4 bg-transparent active:bg-blue-50 rounded-lg transition-colors duration-200"
+                        >
+                            排序
+                        </button>
+                        <button
+                            onClick={() => selectMode ? exitSelectMode() : setSelectMode(true)}
+                            className="text-[#007AFF] text-[13px] font-bold py-2 px-4 bg-transparent active:bg-blue-50 rounded-lg transition-colors duration-200"
+                        >
+                            {selectMode ? '完成' : '多选'}
+                        </button>
+                        <button
+                            onClick={() => setShowModal('duplicates')}
+                            className="text-[#007AFF] text-[13px] font-bold py-2 px-4 bg-transparent active:bg-blue-50 rounded-lg transition-colors duration-200"
+                        >
+                            查找相似
+                        </button>
                         <button 
                             onClick={(e) => {
                                 e.stopPropagation(); // Stop bubbling
@@ -660,10 +1231,17 @@ export default function App() {
           </Accordion>
         </IOSCard>
 
+        <div className="mb-2 pl-4 text-[13px] text-gray-500 uppercase font-medium">预设与模板</div>
+        <IOSCard>
+            <Accordion title="预设与模板" subtitle="一键套用常用排版，或保存当前设置">
+                <PresetPanel presets={presets} onApply={handleApplyPreset} onSave={handleSavePreset} onDelete={handleDeletePreset} />
+            </Accordion>
+        </IOSCard>
+
         {/* --- Reuse existing UI Components for Settings --- */}
         <div className="mb-2 pl-4 text-[13px] text-gray-500 uppercase font-medium">单元格与间距</div>
         <IOSCard>
-            <Accordion title="单元格与间距设置" subtitle="设置画布比例、留白间隙">
+            <Accordion title="单元格与间距设置" subtitle="设置画布比例、间隙边距、圆角边框与背景">
                 <SettingRow label="画布比例">
                     <select 
                         value={settings.isCustomRatio ? 'custom' : settings.aspectRatio} 
@@ -693,6 +1271,83 @@ export default function App() {
                        onPointerDown={e => e.stopPropagation()}
                    />
                 </div>
+                <div className="p-4 bg-white active:bg-gray-50 transition border-t border-gray-100">
+                   <div className="flex items-center justify-between mb-2">
+                       <span className="text-[17px]">外边距</span>
+                       <span className="text-[#007AFF] font-bold text-[15px]">{settings.padding}px</span>
+                   </div>
+                   <input 
+                       type="range" min="0" max="200" step="1" 
+                       value={settings.padding} 
+                       onChange={e => setSettings({...settings, padding: parseInt(e.target.value)})} 
+                       style={{ touchAction: 'none' }}
+                       onPointerDown={e => e.stopPropagation()}
+                   />
+                </div>
+                <div className="p-4 bg-white active:bg-gray-50 transition border-t border-gray-100">
+                   <div className="flex items-center justify-between mb-2">
+                       <span className="text-[17px]">圆角</span>
+                       <span className="text-[#007AFF] font-bold text-[15px]">{settings.cellRadius}px</span>
+                   </div>
+                   <input 
+                       type="range" min="0" max="200" step="1" 
+                       value={settings.cellRadius} 
+                       onChange={e => setSettings({...settings, cellRadius: parseInt(e.target.value)})} 
+                       style={{ touchAction: 'none' }}
+                       onPointerDown={e => e.stopPropagation()}
+                   />
+                </div>
+                <div className="p-4 bg-white active:bg-gray-50 transition border-t border-gray-100">
+                   <div className="flex items-center justify-between mb-2">
+                       <span className="text-[17px]">边框宽度</span>
+                       <span className="text-[#007AFF] font-bold text-[15px]">{settings.cellBorderWidth}px</span>
+                   </div>
+                   <input 
+                       type="range" min="0" max="40" step="1" 
+                       value={settings.cellBorderWidth} 
+                       onChange={e => setSettings({...settings, cellBorderWidth: parseInt(e.target.value)})} 
+                       style={{ touchAction: 'none' }}
+                       onPointerDown={e => e.stopPropagation()}
+                   />
+                </div>
+                {settings.cellBorderWidth > 0 && (
+                    <SettingRow label="边框颜色">
+                        <input type="color" value={settings.cellBorderColor} onChange={e => setSettings({...settings, cellBorderColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                    </SettingRow>
+                )}
+                <SettingRow label="画布背景">
+                    <div className="flex items-center gap-2">
+                        {settings.bgMode === 'color' && (
+                            <input type="color" value={settings.bgColor} onChange={e => setSettings({...settings, bgColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                        )}
+                        {settings.bgMode === 'gradient' && (
+                            <>
+                                <input type="color" value={settings.bgGradientFrom} onChange={e => setSettings({...settings, bgGradientFrom: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                                <input type="color" value={settings.bgGradientTo} onChange={e => setSettings({...settings, bgGradientTo: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                            </>
+                        )}
+                        <select value={settings.bgMode} onChange={e => setSettings({...settings, bgMode: e.target.value as AppSettings['bgMode']})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                            <option value="color">纯色</option>
+                            <option value="gradient">渐变</option>
+                            <option value="transparent">透明 (JPEG 除外)</option>
+                        </select>
+                    </div>
+                </SettingRow>
+                {settings.bgMode === 'gradient' && (
+                    <div className="p-4 bg-white border-t border-gray-100">
+                       <div className="flex items-center justify-between mb-2">
+                           <span className="text-[17px]">渐变角度</span>
+                           <span className="text-[#007AFF] font-bold text-[15px]">{settings.bgGradientAngle}°</span>
+                       </div>
+                       <input 
+                           type="range" min="0" max="360" step="5" 
+                           value={settings.bgGradientAngle} 
+                           onChange={e => setSettings({...settings, bgGradientAngle: parseInt(e.target.value)})} 
+                           style={{ touchAction: 'none' }}
+                           onPointerDown={e => e.stopPropagation()}
+                       />
+                    </div>
+                )}
                 {settings.isCustomRatio && (
                     <div className="p-4 bg-gray-50 flex items-center justify-end gap-3 border-t border-gray-100">
                         <input type="number" placeholder="宽" className="bg-white border rounded px-2 py-1 text-center w-20 text-sm" value={settings.customW} onChange={e => setSettings({...settings, customW: parseInt(e.target.value) || 1000})} />
@@ -700,6 +1355,26 @@ export default function App() {
                         <input type="number" placeholder="高" className="bg-white border rounded px-2 py-1 text-center w-20 text-sm" value={settings.customH} onChange={e => setSettings({...settings, customH: parseInt(e.target.value) || 1500})} />
                     </div>
                 )}
+                <SettingRow label="图片适应">
+                    <select value={settings.fitMode} onChange={e => setSettings({...settings, fitMode: e.target.value as FitMode})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                        <option value="cover">裁剪填充</option>
+                        <option value="contain">完整显示 (留边)</option>
+                    </select>
+                </SettingRow>
+                {settings.fitMode === 'contain' && (
+                    <SettingRow label="留边填充">
+                        <div className="flex items-center gap-2">
+                            {settings.letterboxFill === 'color' && (
+                                <input type="color" value={settings.letterboxColor} onChange={e => setSettings({...settings, letterboxColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                            )}
+                            <select value={settings.letterboxFill} onChange={e => setSettings({...settings, letterboxFill: e.target.value as AppSettings['letterboxFill']})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                                <option value="blur">模糊背景</option>
+                                <option value="color">纯色</option>
+                                <option value="transparent">透明 (JPEG 除外)</option>
+                            </select>
+                        </div>
+                    </SettingRow>
+                )}
             </Accordion>
         </IOSCard>
 
@@ -713,6 +1388,19 @@ export default function App() {
                  <SettingRow label="起始数值">
                      <input type="number" value={settings.startNumber} onChange={e => setSettings({...settings, startNumber: parseInt(e.target.value) || 1})} className="text-right text-[#007AFF] text-[17px] focus:outline-none w-20 bg-transparent rounded px-2 py-1" />
                  </SettingRow>
+                 <SettingRow label="序号样式">
+                     <select value={settings.numStyle} onChange={e => setSettings({...settings, numStyle: e.target.value as NumberStyle})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right w-44">
+                         {NUMBER_STYLES.map(({ style, label }) => <option key={style} value={style}>{label}</option>)}
+                     </select>
+                 </SettingRow>
+                 {settings.numStyle === 'decimal' && (
+                     <SettingRow label="补零位数" subLabel="如 3 位: 001, 002 ... (0 = 不补零)">
+                         <input type="number" min="0" max="6" value={settings.numPad} onChange={e => setSettings({...settings, numPad: Math.min(6, Math.max(0, parseInt(e.target.value) || 0))})} className="text-right text-[#007AFF] text-[17px] focus:outline-none w-20 bg-transparent rounded px-2 py-1" />
+                     </SettingRow>
+                 )}
+                 <SettingRow label="格式模板" subLabel={`{n} 代表序号。预览: ${[0, 1, 2].map(k => formatNumber(settings.startNumber + k, maskContext.format)).join('、')}`}>
+                     <input type="text" value={settings.numTemplate} placeholder="{n}" onChange={e => setSettings({...settings, numTemplate: e.target.value})} className="text-right text-[#007AFF] text-[17px] focus:outline-none w-32 bg-gray-50 rounded px-2 py-1 placeholder-gray-300" />
+                 </SettingRow>
                  <SettingRow label="字号大小">
                      <input type="number" value={settings.fontSize} onChange={e => setSettings({...settings, fontSize: parseInt(e.target.value) || 100})} className="text-right text-[#007AFF] text-[17px] focus:outline-none w-20 bg-transparent rounded px-2 py-1" />
                  </SettingRow>
@@ -770,11 +1458,168 @@ export default function App() {
                          <option value="top-right">右上角</option>
                      </select>
                  </SettingRow>
+                 <SettingRow label="边距 (水平 / 垂直)">
+                     <div className="flex items-center gap-2">
+                         <input type="number" value={settings.numMarginX} onChange={e => setSettings({...settings, numMarginX: parseInt(e.target.value) || 0})} className="text-center text-[#007AFF] text-[15px] focus:outline-none w-16 bg-gray-50 rounded px-2 py-1" />
+                         <input type="number" value={settings.numMarginY} onChange={e => setSettings({...settings, numMarginY: parseInt(e.target.value) || 0})} className="text-center text-[#007AFF] text-[15px] focus:outline-none w-16 bg-gray-50 rounded px-2 py-1" />
+                     </div>
+                 </SettingRow>
+                 <SettingRow label="背景徽章">
+                     <select value={settings.numBadge} onChange={e => setSettings({...settings, numBadge: e.target.value as AppSettings['numBadge']})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                         <option value="none">无</option>
+                         <option value="circle">圆形</option>
+                         <option value="pill">胶囊</option>
+                         <option value="square">方形</option>
+                     </select>
+                 </SettingRow>
+                 {settings.numBadge !== 'none' && (
+                     <div className="p-4 bg-gray-50 border-t border-gray-100 space-y-3 text-xs text-gray-500">
+                         <div className="flex items-center justify-between">
+                             <span>填充颜色</span>
+                             <input type="color" value={settings.numBadgeColor} onChange={e => setSettings({...settings, numBadgeColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                         </div>
+                         <div className="flex items-center">
+                             <span className="w-16">不透明度</span>
+                             <input type="range" min="0" max="1" step="0.05" value={settings.numBadgeOpacity} onChange={e => setSettings({...settings, numBadgeOpacity: parseFloat(e.target.value)})} className="flex-1" style={{ touchAction: 'none' }} onPointerDown={e => e.stopPropagation()} />
+                         </div>
+                         <div className="flex items-center">
+                             <span className="w-16">内边距</span>
+                             <input type="range" min="0" max="200" step="5" value={settings.numBadgePadding} onChange={e => setSettings({...settings, numBadgePadding: parseInt(e.target.value)})} className="flex-1" style={{ touchAction: 'none' }} onPointerDown={e => e.stopPropagation()} />
+                         </div>
+                         {settings.numBadge === 'square' && (
+                             <div className="flex items-center">
+                                 <span className="w-16">圆角</span>
+                                 <input type="range" min="0" max="200" step="2" value={settings.numBadgeRadius} onChange={e => setSettings({...settings, numBadgeRadius: parseInt(e.target.value)})} className="flex-1" style={{ touchAction: 'none' }} onPointerDown={e => e.stopPropagation()} />
+                             </div>
+                         )}
+                     </div>
+                 )}
+                 <div className="flex items-center justify-between p-4 bg-white border-t border-gray-100">
+                     <div className="flex flex-col">
+                         <span className="text-[17px]">自动对比色</span>
+                         <span className="text-[10px] text-gray-400">按序号下方明暗自动选用黑/白字</span>
+                     </div>
+                     <IOSToggle checked={settings.numAutoContrast} onChange={(e) => setSettings({...settings, numAutoContrast: e.target.checked})} />
+                 </div>
+             </Accordion>
+        </IOSCard>
+
+        <div className="mb-2 pl-4 text-[13px] text-gray-500 uppercase font-medium">文字说明</div>
+        <IOSCard>
+             <div className="flex items-center justify-between p-4 bg-white border-b border-gray-100">
+                <span className="text-[17px]">显示文字说明</span>
+                <IOSToggle checked={settings.showCaption} onChange={(e) => setSettings({...settings, showCaption: e.target.checked})} />
+             </div>
+             <Accordion title="文字说明设置" subtitle="文字来源、字体、背景条、位置">
+                 <SettingRow
+                     label="文字来源"
+                     subLabel={settings.captionSource === 'custom'
+                         ? '点击图片 → 编辑文字说明'
+                         : images.length > 0 ? `首张: ${resolveCaption(images[0], settings) || '(无匹配)'}` : undefined}
+                 >
+                     <select value={settings.captionSource} onChange={e => setSettings({...settings, captionSource: e.target.value as CaptionSource})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                         {CAPTION_SOURCES.map(({ source, label }) => <option key={source} value={source}>{label}</option>)}
+                     </select>
+                 </SettingRow>
+                 {settings.captionSource === 'regex' && (
+                     <SettingRow label="正则表达式" subLabel={settings.captionRegex && !compileCaptionRegex(settings.captionRegex) ? '⚠️ 正则无效，将使用完整文件名' : '取第一个括号分组，如 SKU-(\\w+)'}>
+                         <input type="text" value={settings.captionRegex} placeholder="(\d+)" onChange={e => setSettings({...settings, captionRegex: e.target.value})} className="text-right text-[#007AFF] text-[15px] font-mono focus:outline-none w-40 bg-gray-50 rounded px-2 py-1 placeholder-gray-300" />
+                     </SettingRow>
+                 )}
+                 <SettingRow label="字号大小">
+                     <input type="number" value={settings.captionFontSize} onChange={e => setSettings({...settings, captionFontSize: parseInt(e.target.value) || 90})} className="text-right text-[#007AFF] text-[17px] focus:outline-none w-20 bg-transparent rounded px-2 py-1" />
+                 </SettingRow>
+                 <SettingRow label="字体颜色">
+                     <input type="color" value={settings.captionColor} onChange={e => setSettings({...settings, captionColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                 </SettingRow>
+                 <SettingRow label="字体粗细">
+                     <select value={settings.captionFontWeight} onChange={e => setSettings({...settings, captionFontWeight: e.target.value})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right w-40">
+                         <option value="normal">常规 (Normal)</option>
+                         <option value="bold">粗体 (Bold)</option>
+                     </select>
+                 </SettingRow>
+                 <SettingRow label="字体">
+                     <select value={settings.captionFontFamily} onChange={e => setSettings({...settings, captionFontFamily: e.target.value})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right w-40">
+                         <option value="sans-serif">默认黑体</option>
+                         <option value="serif">宋体 / 衬线</option>
+                         <option value="monospace">等宽</option>
+                     </select>
+                 </SettingRow>
+                 <div className="flex items-center justify-between p-4 bg-white border-t border-gray-100">
+                     <div className="flex items-center gap-2">
+                         <span className="text-[17px]">背景条</span>
+                         <label className="flex items-center cursor-pointer gap-1 bg-gray-100 px-2 py-1 rounded-md text-xs text-gray-500 font-bold active:bg-gray-200 transition">
+                             <input type="checkbox" checked={settings.captionBand} onChange={e => setSettings({...settings, captionBand: e.target.checked})} className="accent-[#34C759]" />
+                             <span>启用</span>
+                         </label>
+                     </div>
+                     <div className={`flex items-center gap-3 ${settings.captionBand ? '' : 'opacity-30 pointer-events-none'}`}>
+                         <input
+                             type="range" min="0" max="1" step="0.05"
+                             value={settings.captionBandOpacity}
+                             onChange={e => setSettings({...settings, captionBandOpacity: parseFloat(e.target.value)})}
+                             className="w-24"
+                             style={{ touchAction: 'none' }}
+                             onPointerDown={e => e.stopPropagation()}
+                         />
+                         <input type="color" value={settings.captionBandColor} onChange={e => setSettings({...settings, captionBandColor: e.target.value})} className="w-8 h-8 rounded-full overflow-hidden border border-gray-200" />
+                     </div>
+                 </div>
+                 <SettingRow label="位置">
+                     <div className="flex gap-2">
+                         <select value={settings.captionPos} onChange={e => setSettings({...settings, captionPos: e.target.value as AppSettings['captionPos']})} className="text-[#007AFF] text-[17px] bg-transparent focus:outline-none appearance-none text-right">
+                             <option value="bottom">底部</option>
+                             <option value="top">顶部</option>
+                         </select>
+                         <select value={settings.captionAlign} onChange={e => setSettings({...settings, captionAlign: e.target.value as AppSettings['captionAlign']})} className="text-[#007AFF] text-[17px] bg-transparent focus:outline-none appearance-none text-right">
+                             <option value="left">居左</option>
+                             <option value="center">居中</option>
+                             <option value="right">居右</option>
+                         </select>
+                     </div>
+                 </SettingRow>
+                 <SettingRow label="过长文字">
+                     <div className="flex items-center gap-2">
+                         {settings.captionOverflow === 'wrap' && (
+                             <input type="number" min="1" max="5" value={settings.captionMaxLines} onChange={e => setSettings({...settings, captionMaxLines: Math.min(5, Math.max(1, parseInt(e.target.value) || 1))})} className="text-right text-[#007AFF] text-[15px] focus:outline-none w-12 bg-gray-50 rounded px-2 py-1" />
+                         )}
+                         <select value={settings.captionOverflow} onChange={e => setSettings({...settings, captionOverflow: e.target.value as AppSettings['captionOverflow']})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                             <option value="wrap">换行 (最多 N 行)</option>
+                             <option value="truncate">单行截断</option>
+                         </select>
+                     </div>
+                 </SettingRow>
              </Accordion>
         </IOSCard>
 
         <IOSCard className="mb-6">
             <Accordion title="导出与布局策略" subtitle="设置排列列数、分组方式、画质">
+                <SettingRow label="排版方式" subLabel={settings.layoutMode === 'grid' ? undefined : '按每张图片的比例排版，列数与画布比例决定宽度和基准行高'}>
+                    <select value={settings.layoutMode} onChange={e => setSettings({...settings, layoutMode: e.target.value as LayoutMode})} className="text-[#007AFF] text-[17px] pr-6 bg-transparent focus:outline-none appearance-none dir-rtl text-right">
+                        {LAYOUT_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+                    </select>
+                </SettingRow>
+                {settings.layoutMode === 'template' && (
+                    <div className="p-4 bg-white border-t border-gray-100">
+                        <div className="flex gap-3 overflow-x-auto no-scrollbar pb-1">
+                            {BUILT_IN_TEMPLATES.map(tpl => (
+                                <button
+                                    key={tpl.id}
+                                    onClick={() => setSettings({...settings, templateId: tpl.id})}
+                                    className={`shrink-0 w-[84px] p-1.5 rounded-lg border-2 transition ${settings.templateId === tpl.id ? 'border-[#007AFF] bg-[#007AFF]/5' : 'border-gray-100 bg-gray-50'}`}
+                                >
+                                    <div className="grid gap-[2px] aspect-square" style={{ gridTemplateColumns: `repeat(${tpl.cols}, 1fr)`, gridTemplateRows: `repeat(${tpl.rows}, 1fr)` }}>
+                                        {tpl.cells.map((c, k) => (
+                                            <div key={k} className={`rounded-[2px] ${c.hero ? 'bg-[#FF9500]/70' : 'bg-gray-300'}`} style={{ gridColumn: `${c.x + 1} / span ${c.w || 1}`, gridRow: `${c.y + 1} / span ${c.h || 1}` }} />
+                                        ))}
+                                    </div>
+                                    <div className="text-[10px] text-gray-600 mt-1 truncate">{tpl.name}</div>
+                                </button>
+                            ))}
+                        </div>
+                        <div className="text-[10px] text-gray-400 mt-2">点击图片可「固定到模板大图位」；每组 {getTemplate(settings.templateId).cells.length} 张，列数与每组行数不生效。</div>
+                    </div>
+                )}
                 <div className="p-4 bg-white border-b border-gray-100">
                     <div className="grid grid-cols-2 gap-4">
                         <div className="bg-gray-50 p-3 rounded-lg border border-gray-100">
@@ -796,7 +1641,7 @@ export default function App() {
                         </div>
                     </div>
                     <div className="mt-3 text-[11px] bg-[#007AFF]/5 text-[#007AFF] border border-[#007AFF]/20 p-2 rounded flex items-center gap-2">
-                        <span className="font-bold">Ready</span> <span>每组 <b>{settings.groupRows > 0 ? settings.cols * settings.groupRows : '自动(全部)'}</b> 张</span>
+                        <span className="font-bold">Ready</span> <span>每组 <b>{settings.layoutMode === 'template' ? `${getTemplate(settings.templateId).cells.length} 张` : settings.groupRows === 0 ? '自动(全部)' : settings.layoutMode === 'justified' ? `${settings.groupRows} 行` : `${settings.cols * settings.groupRows} 张`}</b></span>
                     </div>
                 </div>
 
@@ -843,15 +1688,296 @@ export default function App() {
                             />
                          </div>
                      </div>
+                     <div className="mt-4">
+                        <label className="text-[11px] text-gray-500 block mb-1">摆放方式</label>
+                        <div className="flex flex-wrap gap-1 p-1 bg-gray-100 rounded-lg">
+                            {OVERLAY_PLACEMENTS.map(({ placement, label }) => (
+                                <button key={placement} onClick={() => setSettings({...settings, overlayPlacement: placement})} className={`flex-1 py-1.5 px-2 text-xs font-medium rounded-md whitespace-nowrap transition-all ${settings.overlayPlacement === placement ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                            ))}
+                        </div>
+                     </div>
+                     {settings.overlayPlacement !== 'stretch' && (
+                         <div className="flex gap-4 mt-3 animate-fade-in">
+                             {settings.overlayPlacement !== 'tile' && (
+                                 <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">对齐</label>
+                                    <div className="grid grid-cols-3 gap-1 w-[72px]">
+                                        {OVERLAY_ANCHORS.map(anchor => (
+                                            <button key={anchor} onClick={() => setSettings({...settings, overlayAnchor: anchor})} title={anchor} className={`w-[22px] h-[22px] rounded ${settings.overlayAnchor === anchor ? 'bg-[#007AFF]' : 'bg-gray-200 active:bg-gray-300'}`} />
+                                        ))}
+                                    </div>
+                                 </div>
+                             )}
+                             <div className="flex-1 space-y-3">
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">缩放 {settings.overlayScale}%</label>
+                                    <input 
+                                        type="range" min="10" max="200" 
+                                        value={settings.overlayScale} 
+                                        onChange={e => setSettings({...settings, overlayScale: parseInt(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">{settings.overlayPlacement === 'tile' ? '间距' : '边距'} {settings.overlayMargin}%</label>
+                                    <input 
+                                        type="range" min="0" max="30" 
+                                        value={settings.overlayMargin} 
+                                        onChange={e => setSettings({...settings, overlayMargin: parseInt(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                             </div>
+                         </div>
+                     )}
+                </div>
+
+                <div className="bg-white border-b border-gray-100">
+                    <SettingRow label="文字水印" subLabel="平铺斜向文字，防盗图。预览见覆盖层 👁️">
+                        <IOSToggle checked={settings.showWatermark} onChange={(e) => setSettings({...settings, showWatermark: e.target.checked})} />
+                    </SettingRow>
+                    {settings.showWatermark && (
+                        <div className="px-4 pb-4 animate-fade-in">
+                            <input type="text" value={settings.watermarkText} onChange={e => setSettings({...settings, watermarkText: e.target.value})} placeholder="水印文字" className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-[15px] text-gray-800 outline-none mb-1" />
+                            <div className="text-[10px] text-gray-400 mb-3">可用 {'{date}'} 日期、{'{group}'} 组号</div>
+                            <div className="grid grid-cols-2 gap-4 mb-3">
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">字体</label>
+                                    <select value={settings.watermarkFontFamily} onChange={e => setSettings({...settings, watermarkFontFamily: e.target.value})} className="w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-700 outline-none">
+                                        <option value="sans-serif">默认黑体</option>
+                                        <option value="serif">宋体 / 衬线</option>
+                                        <option value="monospace">等宽</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">粗细 / 颜色</label>
+                                    <div className="flex items-center gap-2">
+                                        <select value={settings.watermarkFontWeight} onChange={e => setSettings({...settings, watermarkFontWeight: e.target.value})} className="flex-1 bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-700 outline-none">
+                                            <option value="normal">常规</option>
+                                            <option value="bold">粗体</option>
+                                        </select>
+                                        <input type="color" value={settings.watermarkColor} onChange={e => setSettings({...settings, watermarkColor: e.target.value})} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">混合模式</label>
+                                    <select value={settings.watermarkBlend} onChange={e => setSettings({...settings, watermarkBlend: e.target.value as AppSettings['watermarkBlend']})} className="w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-700 outline-none">
+                                        <option value="source-over">标准</option>
+                                        <option value="multiply">正片叠底</option>
+                                        <option value="screen">滤色</option>
+                                        <option value="overlay">覆盖</option>
+                                        <option value="soft-light">柔光</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">不透明度 {`${Math.round(settings.watermarkOpacity * 100)}%`}</label>
+                                    <input 
+                                        type="range" min="0.05" max="1" step="0.01" 
+                                        value={settings.watermarkOpacity} 
+                                        onChange={e => setSettings({...settings, watermarkOpacity: parseFloat(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">字号 {`${settings.watermarkSize}%`}</label>
+                                    <input 
+                                        type="range" min="1" max="10" step="0.5" 
+                                        value={settings.watermarkSize} 
+                                        onChange={e => setSettings({...settings, watermarkSize: parseFloat(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">角度 {`${settings.watermarkAngle}°`}</label>
+                                    <input 
+                                        type="range" min="-90" max="90" step="1" 
+                                        value={settings.watermarkAngle} 
+                                        onChange={e => setSettings({...settings, watermarkAngle: parseFloat(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">间距 {`${settings.watermarkSpacing}%`}</label>
+                                    <input 
+                                        type="range" min="0" max="30" step="1" 
+                                        value={settings.watermarkSpacing} 
+                                        onChange={e => setSettings({...settings, watermarkSpacing: parseFloat(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="bg-white border-b border-gray-100">
+                    <SettingRow label="页眉页脚" subLabel="每组图加标题、日期和页码，如 2/5">
+                        <IOSToggle checked={settings.showBand} onChange={(e) => setSettings({...settings, showBand: e.target.checked})} />
+                    </SettingRow>
+                    {settings.showBand && (
+                        <div className="px-4 pb-4 animate-fade-in">
+                            <div className="flex flex-wrap gap-1 p-1 bg-gray-100 rounded-lg mb-3">
+                                {SHEET_BAND_POSITIONS.map(({ position, label }) => (
+                                    <button key={position} onClick={() => setSettings({...settings, bandPosition: position})} className={`flex-1 py-1.5 px-2 text-xs font-medium rounded-md whitespace-nowrap transition-all ${settings.bandPosition === position ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                                ))}
+                            </div>
+                            <input type="text" value={settings.bandTitle} onChange={e => setSettings({...settings, bandTitle: e.target.value})} placeholder="标题" className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-[15px] text-gray-800 outline-none mb-2" />
+                            <input type="text" value={settings.bandSubtitle} onChange={e => setSettings({...settings, bandSubtitle: e.target.value})} placeholder="副标题" className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-[15px] text-gray-800 outline-none mb-2" />
+                            <input type="text" value={settings.bandPageFormat} onChange={e => setSettings({...settings, bandPageFormat: e.target.value})} placeholder="页码格式 (留空不显示)" className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-[15px] text-gray-800 outline-none mb-1" />
+                            <div className="text-[10px] text-gray-400 mb-3">可用 {'{group}'} 组号、{'{total}'} 总组数、{'{date}'} 日期</div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">字体</label>
+                                    <select value={settings.bandFontFamily} onChange={e => setSettings({...settings, bandFontFamily: e.target.value})} className="w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-700 outline-none">
+                                        <option value="sans-serif">默认黑体</option>
+                                        <option value="serif">宋体 / 衬线</option>
+                                        <option value="monospace">等宽</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">背景 / 标题 / 文字</label>
+                                    <div className="flex items-center gap-2">
+                                        <input type="color" value={settings.bandBgColor} onChange={e => setSettings({...settings, bandBgColor: e.target.value})} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                        <input type="color" value={settings.bandTitleColor} onChange={e => setSettings({...settings, bandTitleColor: e.target.value})} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                        <input type="color" value={settings.bandTextColor} onChange={e => setSettings({...settings, bandTextColor: e.target.value})} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="text-[11px] text-gray-500 block mb-1">高度 {`${settings.bandHeight}px`}</label>
+                                    <input 
+                                        type="range" min="60" max="600" step="10" 
+                                        value={settings.bandHeight} 
+                                        onChange={e => setSettings({...settings, bandHeight: parseInt(e.target.value)})} 
+                                        className="w-full" 
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={e => e.stopPropagation()}
+                                    />
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-[13px] text-gray-700">显示日期</span>
+                                    <IOSToggle checked={settings.bandShowDate} onChange={(e) => setSettings({...settings, bandShowDate: e.target.checked})} />
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="p-4 bg-white">
                     <div className="flex items-center justify-between mb-2">
-                        <span className="text-[17px] font-bold text-gray-800">导出画质</span>
-                        <div className="flex items-center gap-2">
-                            <button onClick={previewQuality} className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-2 py-1 rounded flex items-center gap-1 transition"><span>👁️ 预览</span></button>
-                            <input type="number" min="10" max="100" value={settings.exportQuality} onChange={e => setSettings({...settings, exportQuality: parseInt(e.target.value) || 80})} className="bg-gray-100 rounded px-1 py-1 text-center w-14 text-[15px] font-bold text-[#007AFF] outline-none" />
-                            <span className="text-xs text-gray-500">%</span>
+                        <span className="text-[17px] font-bold text-gray-800">导出格式</span>
+                        <button onClick={previewQuality} className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-2 py-1 rounded flex items-center gap-1 transition"><span>👁️ 预览</span></button>
+                    </div>
+                    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                            <button key={format} onClick={() => setSettings({...settings, exportFormat: format})} className={`flex-1 py-1.5 px-2 text-xs font-medium rounded-md whitespace-nowrap transition-all ${settings.exportFormat === format ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                        ))}
+                    </div>
+                    <div className="text-[10px] text-gray-400 mt-1">
+                        {exportFormatInfo(settings.exportFormat).alpha ? '支持透明背景' : '不支持透明，透明处填白'}{settings.exportFormat === 'avif' || settings.exportFormat === 'webp' ? '；浏览器不支持时自动改用其他格式' : ''}
+                    </div>
+                    {exportFormatInfo(settings.exportFormat).lossy && (
+                        <>
+                            <div className="flex items-center justify-between mt-3">
+                                <span className="text-[15px] text-gray-800">{settings.exportTargetKB > 0 ? '最高画质' : '画质'}</span>
+                                <div className="flex items-center gap-2">
+                                    <input type="number" min="10" max="100" value={settings.exportQuality} onChange={e => setSettings({...settings, exportQuality: parseInt(e.target.value) || 80})} className="bg-gray-100 rounded px-1 py-1 text-center w-14 text-[15px] font-bold text-[#007AFF] outline-none" />
+                                    <span className="text-xs text-gray-500">%</span>
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between mt-3">
+                                <div>
+                                    <div className="text-[15px] text-gray-800">限制单张大小</div>
+                                    <div className="text-[10px] text-gray-400">自动降低画质，适配聊天软件上传限制</div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {settings.exportTargetKB > 0 && (
+                                        <>
+                                            <input type="number" min="50" step="50" value={settings.exportTargetKB} onChange={e => setSettings({...settings, exportTargetKB: Math.max(1, parseInt(e.target.value) || 0)})} className="bg-gray-100 rounded px-1 py-1 text-center w-16 text-[15px] font-bold text-[#007AFF] outline-none" />
+                                            <span className="text-xs text-gray-500">KB</span>
+                                        </>
+                                    )}
+                                    <IOSToggle checked={settings.exportTargetKB > 0} onChange={(e) => setSettings({...settings, exportTargetKB: e.target.checked ? 1024 : 0})} />
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="p-4 bg-white border-t border-gray-100">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-[17px] font-bold text-gray-800">PDF 页面</span>
+                        <span className="text-[10px] text-gray-400">每组一页，离线生成</span>
+                    </div>
+                    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+                        {PDF_PAGE_SIZES.map(({ size, label }) => (
+                            <button key={size} onClick={() => setSettings({...settings, pdfPageSize: size})} className={`flex-1 py-1.5 px-2 text-xs font-medium rounded-md whitespace-nowrap transition-all ${settings.pdfPageSize === size ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between mt-3 mb-2">
+                        <span className="text-[15px] text-gray-800">页边距</span>
+                        <span className="text-[#007AFF] font-bold text-[15px]">{settings.pdfMargin}mm</span>
+                    </div>
+                    <input 
+                        type="range" min="0" max="40" step="1" 
+                        value={settings.pdfMargin} 
+                        onChange={e => setSettings({...settings, pdfMargin: parseInt(e.target.value)})} 
+                        style={{ touchAction: 'none' }}
+                        onPointerDown={e => e.stopPropagation()}
+                    />
+                </div>
+
+                <div className="p-4 bg-white border-t border-gray-100">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-[17px] font-bold text-gray-800">GIF 动图</span>
+                        <button onClick={exportGif} className="text-xs bg-[#007AFF] text-white font-bold px-3 py-1.5 rounded-full active:scale-95 transition">导出 GIF</button>
+                    </div>
+                    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+                        {GIF_SOURCES.map(({ source, label }) => (
+                            <button key={source} onClick={() => setSettings({...settings, gifSource: source})} className={`flex-1 py-1.5 px-2 text-xs font-medium rounded-md whitespace-nowrap transition-all ${settings.gifSource === source ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 mt-3">
+                        <div>
+                            <label className="text-[11px] text-gray-500 block mb-1">每帧时长 {`${(settings.gifFrameMs / 1000).toFixed(1)}s`}</label>
+                            <input 
+                                type="range" min="100" max="5000" step="100" 
+                                value={settings.gifFrameMs} 
+                                onChange={e => setSettings({...settings, gifFrameMs: parseInt(e.target.value)})} 
+                                className="w-full" 
+                                style={{ touchAction: 'none' }}
+                                onPointerDown={e => e.stopPropagation()}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[11px] text-gray-500 block mb-1">宽度 {`${settings.gifWidth}px`}</label>
+                            <input 
+                                type="range" min="160" max="1080" step="20" 
+                                value={settings.gifWidth} 
+                                onChange={e => setSettings({...settings, gifWidth: parseInt(e.target.value)})} 
+                                className="w-full" 
+                                style={{ touchAction: 'none' }}
+                                onPointerDown={e => e.stopPropagation()}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[11px] text-gray-500 block mb-1">播放次数 (0 = 循环)</label>
+                            <input type="number" min="0" max="100" value={settings.gifLoop} onChange={e => setSettings({...settings, gifLoop: Math.max(0, parseInt(e.target.value) || 0)})} className="w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-700 outline-none" />
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-[13px] text-gray-700">抖动 (更细腻)</span>
+                            <IOSToggle checked={settings.gifDither} onChange={(e) => setSettings({...settings, gifDither: e.target.checked})} />
                         </div>
                     </div>
                 </div>
@@ -859,60 +1985,179 @@ export default function App() {
         </IOSCard>
 
         <IOSCard>
-            <Accordion title="打码与贴纸" subtitle="遮挡特定图片或序号">
+            <Accordion title="打码与贴纸" subtitle="按规则遮挡、标记或剔除图片">
                  <div className="p-4 bg-white">
+                     <div className="flex flex-wrap gap-2 mb-4">
+                         {settings.maskRules.map(rule => (
+                             <button key={rule.id} onClick={() => setActiveMaskRuleId(rule.id)} className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${rule.id === activeMaskRule?.id ? 'bg-[#007AFF] text-white border-[#007AFF]' : 'bg-white text-gray-600 border-gray-200'} ${rule.enabled ? '' : 'opacity-50'}`}>
+                                 {rule.name || '未命名'}
+                                 {rule.target.trim() && images.length > 0 && <span className="ml-1 opacity-70">{parseMaskQuery(rule.target, maskContext).indices.length}</span>}
+                             </button>
+                         ))}
+                         <button onClick={addMaskRule} className="px-3 py-1.5 rounded-full text-xs font-medium border border-dashed border-gray-300 text-gray-500 active:bg-gray-50">+ 规则</button>
+                     </div>
+
+                     {activeMaskRule && maskQuery && (
+                     <>
+                     <div className="flex items-center gap-2 mb-4">
+                        <input type="text" value={activeMaskRule.name} onChange={e => updateMaskRule(activeMaskRule.id, { name: e.target.value })} placeholder="规则名称 (如: 已售)" className="flex-1 min-w-0 text-[15px] font-bold text-gray-800 focus:outline-none bg-gray-50 rounded px-2 py-1" />
+                        <button onClick={() => moveMaskRule(activeMaskRule.id, -1)} className="w-7 h-7 rounded-full bg-gray-100 text-gray-500 text-xs active:bg-gray-200" title="上移 (先画)">↑</button>
+                        <button onClick={() => moveMaskRule(activeMaskRule.id, 1)} className="w-7 h-7 rounded-full bg-gray-100 text-gray-500 text-xs active:bg-gray-200" title="下移 (后画，在上层)">↓</button>
+                        <button onClick={() => removeMaskRule(activeMaskRule.id)} className="w-7 h-7 rounded-full bg-gray-100 text-gray-400 hover:text-[#FF3B30] text-xs active:bg-gray-200" title="删除规则">✕</button>
+                        <IOSToggle checked={activeMaskRule.enabled} onChange={(e) => updateMaskRule(activeMaskRule.id, { enabled: e.target.checked })} />
+                     </div>
                      <div className="flex items-center justify-between mb-4">
                         <div className="flex flex-col">
                             <span className="text-[17px] font-bold text-gray-800">目标序号</span>
-                            <span className="text-[10px] text-gray-400">输入数字 (如: 5, 12, 1-3)</span>
+                            <span className="text-[10px] text-gray-400">如 1-20 !7、odd、every 3 from 2、r2 c3 g1 (行2 列3 组1)、last 5；与序号同名时按序号</span>
                         </div>
-                        <input type="text" value={settings.maskIndicesStr} onChange={e => setSettings({...settings, maskIndicesStr: e.target.value})} placeholder="如: 5, 12" className="text-right text-[#007AFF] text-[17px] focus:outline-none w-40 placeholder-gray-300 bg-gray-50 rounded px-2 py-1" />
+                        <input type="text" value={activeMaskRule.target} onChange={e => updateMaskRule(activeMaskRule.id, { target: e.target.value })} placeholder={`如: ${formatNumber(5, maskContext.format)}, ${formatNumber(12, maskContext.format)}`} className={`text-right text-[17px] focus:outline-none w-40 placeholder-gray-300 bg-gray-50 rounded px-2 py-1 ${maskQuery.errors.length ? 'text-red-500' : 'text-[#007AFF]'}`} />
                      </div>
-                     <div className="flex p-1 bg-gray-100 rounded-lg mb-4">
-                        <button onClick={() => setSettings({...settings, maskMode: 'line'})} className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${settings.maskMode === 'line' ? 'bg-white shadow text-black' : 'text-gray-500'}`}>画线打码</button>
-                        <button onClick={() => setSettings({...settings, maskMode: 'image'})} className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${settings.maskMode === 'image' ? 'bg-white shadow text-black' : 'text-gray-500'}`}>图片/贴纸</button>
+                     {activeMaskRule.target.trim() && (
+                         <div className="-mt-2 mb-4 px-3 py-2 bg-gray-50 rounded-lg text-[11px] leading-relaxed">
+                             <div className="font-mono break-all text-gray-600">
+                                 {maskQuery.errors.length ? (() => {
+                                     // Input text with the unparsed spans underlined
+                                     const parts: React.ReactNode[] = [];
+                                     let at = 0;
+                                     maskQuery.errors.forEach((err, i) => {
+                                         if (err.start < at) return;
+                                         parts.push(activeMaskRule.target.slice(at, err.start));
+                                         parts.push(<span key={i} title={err.message} className="text-red-500 underline decoration-wavy">{activeMaskRule.target.slice(err.start, err.end)}</span>);
+                                         at = err.end;
+                                     });
+                                     parts.push(activeMaskRule.target.slice(at));
+                                     return parts;
+                                 })() : activeMaskRule.target}
+                             </div>
+                             {maskQuery.errors.map((err, i) => (
+                                 <div key={i} className="text-red-500">第 {err.start + 1} 字: {err.message}</div>
+                             ))}
+                             <div className="text-gray-400 mt-1">
+                                 {images.length ? `匹配 ${maskQuery.indices.length} / ${images.length} 格` : '添加图片后显示匹配数量'}
+                             </div>
+                         </div>
+                     )}
+                     <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-lg mb-4">
+                        {MASK_MODES.map(({ mode, label }) => (
+                            <button key={mode} onClick={() => updateMaskRule(activeMaskRule.id, { mode })} className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${activeMaskRule.mode === mode ? 'bg-white shadow text-black' : 'text-gray-500'}`}>{label}</button>
+                        ))}
                      </div>
 
-                     {settings.maskMode === 'line' ? (
+                     {activeMaskRule.mode === 'line' && (
                          <div className="animate-fade-in">
                              <div className="flex justify-between items-center pb-3 border-b border-gray-100 mb-3">
                                 <span className="text-sm text-gray-500">形状样式</span>
                                 <div className="flex items-center gap-4 text-sm">
-                                    <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={settings.lineStyle === 'cross'} onChange={() => setSettings({...settings, lineStyle: 'cross'})} className="accent-[#FF3B30]" /> <span>❌ 交叉</span></label>
-                                    <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={settings.lineStyle === 'slash'} onChange={() => setSettings({...settings, lineStyle: 'slash'})} className="accent-[#FF3B30]" /> <span>╱ 斜线</span></label>
-                                </div>
-                             </div>
-                             <div className="flex justify-between items-center py-2">
-                                <span className="text-sm text-gray-500 w-20">颜色/粗细</span>
-                                <div className="flex items-center flex-1 gap-3">
-                                    <input type="color" value={settings.maskColor} onChange={e => setSettings({...settings, maskColor: e.target.value})} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
-                                    <input 
-                                        type="range" min="1" max="20" 
-                                        value={settings.maskWidth} 
-                                        onChange={e => setSettings({...settings, maskWidth: parseInt(e.target.value)})} 
-                                        className="flex-1" 
-                                        style={{ touchAction: 'none' }}
-                                        onPointerDown={e => e.stopPropagation()}
-                                    />
+                                    <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={activeMaskRule.lineStyle === 'cross'} onChange={() => updateMaskRule(activeMaskRule.id, { lineStyle: 'cross' })} className="accent-[#FF3B30]" /> <span>❌ 交叉</span></label>
+                                    <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={activeMaskRule.lineStyle === 'slash'} onChange={() => updateMaskRule(activeMaskRule.id, { lineStyle: 'slash' })} className="accent-[#FF3B30]" /> <span>╱ 斜线</span></label>
                                 </div>
                              </div>
                          </div>
-                     ) : (
-                         <div className="animate-fade-in">
-                             <button onClick={() => stickerInputRef.current?.click()} className="w-full py-2 border border-dashed border-gray-300 rounded-lg text-gray-500 text-sm mb-3 active:bg-gray-50">+ 上传贴纸</button>
-                             <input type="file" ref={stickerInputRef} accept="image/*" className="hidden" onChange={handleStickerFile} />
+                     )}
+                     {(activeMaskRule.mode === 'text' || activeMaskRule.mode === 'fill') && (
+                         <div className="flex justify-between items-center pb-3 border-b border-gray-100 mb-3 animate-fade-in">
+                            <span className="text-sm text-gray-500">{activeMaskRule.mode === 'text' ? '印章文字' : '居中文字 (可留空)'}</span>
+                            <div className="flex items-center gap-2">
+                                {activeMaskRule.mode === 'fill' && <input type="color" value={activeMaskRule.textColor} onChange={e => updateMaskRule(activeMaskRule.id, { textColor: e.target.value })} className="w-7 h-7 rounded-full border border-gray-200 shrink-0" />}
+                                <input type="text" value={activeMaskRule.text} onChange={e => updateMaskRule(activeMaskRule.id, { text: e.target.value })} placeholder="已售" className="text-right text-[#007AFF] text-[15px] focus:outline-none w-32 bg-gray-50 rounded px-2 py-1" />
+                            </div>
+                         </div>
+                     )}
+                     {activeMaskRule.mode === 'fill' && (
+                         <div className="flex justify-between items-center py-2">
+                            <span className="text-sm text-gray-500 w-20">颜色/透明</span>
+                            <div className="flex items-center flex-1 gap-3">
+                                <input type="color" value={activeMaskRule.color} onChange={e => updateMaskRule(activeMaskRule.id, { color: e.target.value })} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                <input 
+                                    type="range" min="10" max="100" 
+                                    value={Math.round(activeMaskRule.fillOpacity * 100)} 
+                                    onChange={e => updateMaskRule(activeMaskRule.id, { fillOpacity: parseInt(e.target.value) / 100 })} 
+                                    className="flex-1" 
+                                    style={{ touchAction: 'none' }}
+                                    onPointerDown={e => e.stopPropagation()}
+                                />
+                            </div>
+                         </div>
+                     )}
+                     {(activeMaskRule.mode === 'line' || activeMaskRule.mode === 'text') && (
+                         <div className="flex justify-between items-center py-2">
+                            <span className="text-sm text-gray-500 w-20">颜色/粗细</span>
+                            <div className="flex items-center flex-1 gap-3">
+                                <input type="color" value={activeMaskRule.color} onChange={e => updateMaskRule(activeMaskRule.id, { color: e.target.value })} className="w-8 h-8 rounded-full border border-gray-200 shrink-0" />
+                                <input 
+                                    type="range" min="1" max="20" 
+                                    value={activeMaskRule.width} 
+                                    onChange={e => updateMaskRule(activeMaskRule.id, { width: parseInt(e.target.value) })} 
+                                    className="flex-1" 
+                                    style={{ touchAction: 'none' }}
+                                    onPointerDown={e => e.stopPropagation()}
+                                />
+                            </div>
+                         </div>
+                     )}
+                     {activeMaskRule.mode !== 'line' && (
+                         <div className="animate-fade-in mt-2">
+                             {activeMaskRule.mode === 'image' && (
+                                 <>
+                                 <button onClick={() => stickerInputRef.current?.click()} className="w-full py-2 border border-dashed border-gray-300 rounded-lg text-gray-500 text-sm mb-3 active:bg-gray-50">+ 上传贴纸</button>
+                                 <input type="file" ref={stickerInputRef} accept="image/*" className="hidden" onChange={handleStickerFile} />
+                                 </>
+                             )}
                              
                              <div className="flex gap-4 mb-1">
-                                <div onClick={enlargeStickerPreview} className="w-24 h-24 checkered-bg rounded-lg overflow-hidden border border-gray-200 shrink-0 relative shadow-sm cursor-pointer active:scale-95 transition">
-                                    <canvas ref={stickerCanvasRef} className="w-full h-full object-contain" />
+                                <div className="w-24 h-24 checkered-bg rounded-lg overflow-hidden border border-gray-200 shrink-0 relative shadow-sm cursor-pointer active:scale-95 transition">
+                                    <canvas
+                                        ref={stickerCanvasRef}
+                                        className="w-full h-full object-contain"
+                                        style={{ touchAction: 'none' }}
+                                        onPointerDown={handlePreviewPointerDown}
+                                        onPointerMove={handlePreviewPointerMove}
+                                        onPointerUp={handlePreviewPointerUp}
+                                    />
                                 </div>
                                 <div className="flex-1 flex flex-col justify-center space-y-4">
+                                    {coversImage(activeMaskRule.mode) ? (
+                                    <>
+                                    {activeMaskRule.mode === 'blur' && (
+                                        <div className="flex items-center text-xs text-gray-500">
+                                            <span className="w-8 text-right mr-3">强度</span> 
+                                            <input 
+                                                type="range" min="1" max="15" 
+                                                value={activeMaskRule.blurRadius} 
+                                                onChange={e => updateMaskRule(activeMaskRule.id, { blurRadius: parseInt(e.target.value) })} 
+                                                className="flex-1" 
+                                                style={{ touchAction: 'none' }}
+                                                onPointerDown={e => e.stopPropagation()}
+                                            />
+                                        </div>
+                                    )}
+                                    {activeMaskRule.mode === 'mosaic' && (
+                                        <div className="flex items-center text-xs text-gray-500">
+                                            <span className="w-10 text-right mr-3">块大小</span> 
+                                            <input 
+                                                type="range" min="2" max="25" 
+                                                value={activeMaskRule.mosaicSize} 
+                                                onChange={e => updateMaskRule(activeMaskRule.id, { mosaicSize: parseInt(e.target.value) })} 
+                                                className="flex-1" 
+                                                style={{ touchAction: 'none' }}
+                                                onPointerDown={e => e.stopPropagation()}
+                                            />
+                                        </div>
+                                    )}
+                                    <div className="flex items-center justify-between text-xs text-gray-500">
+                                        <span>{activeMaskRule.area ? `区域 ${Math.round(activeMaskRule.area.w * 100)}% × ${Math.round(activeMaskRule.area.h * 100)}%` : '整格 (在预览上拖动框选局部)'}</span>
+                                        {activeMaskRule.area && <button onClick={() => updateMaskRule(activeMaskRule.id, { area: null })} className="text-[#007AFF]">整格</button>}
+                                    </div>
+                                    </>
+                                    ) : (
+                                    <>
                                     <div className="flex items-center text-xs text-gray-500">
                                         <span className="w-8 text-right mr-3">大小</span> 
                                         <input 
                                             type="range" min="10" max="200" 
-                                            value={settings.stickerSize} 
-                                            onChange={e => setSettings({...settings, stickerSize: parseInt(e.target.value)})} 
+                                            value={activeMaskRule.size} 
+                                            onChange={e => updateMaskRule(activeMaskRule.id, { size: parseInt(e.target.value) })} 
                                             className="flex-1" 
                                             style={{ touchAction: 'none' }}
                                             onPointerDown={e => e.stopPropagation()}
@@ -922,8 +2167,8 @@ export default function App() {
                                         <span className="w-8 text-right mr-3">左右</span> 
                                         <input 
                                             type="range" min="0" max="100" 
-                                            value={settings.stickerX} 
-                                            onChange={e => setSettings({...settings, stickerX: parseInt(e.target.value)})} 
+                                            value={activeMaskRule.posX} 
+                                            onChange={e => updateMaskRule(activeMaskRule.id, { posX: parseInt(e.target.value) })} 
                                             className="flex-1" 
                                             style={{ touchAction: 'none' }}
                                             onPointerDown={e => e.stopPropagation()}
@@ -933,17 +2178,29 @@ export default function App() {
                                         <span className="w-8 text-right mr-3">上下</span> 
                                         <input 
                                             type="range" min="0" max="100" 
-                                            value={settings.stickerY} 
-                                            onChange={e => setSettings({...settings, stickerY: parseInt(e.target.value)})} 
+                                            value={activeMaskRule.posY} 
+                                            onChange={e => updateMaskRule(activeMaskRule.id, { posY: parseInt(e.target.value) })} 
                                             className="flex-1" 
                                             style={{ touchAction: 'none' }}
                                             onPointerDown={e => e.stopPropagation()}
                                         />
                                     </div>
+                                    </>
+                                    )}
                                 </div>
                              </div>
                          </div>
                      )}
+
+                     <div className="flex justify-between items-center pt-3 mt-3 border-t border-gray-100">
+                        <div className="flex flex-col">
+                            <span className="text-sm text-gray-700">重排时剔除</span>
+                            <span className="text-[10px] text-gray-400">关闭后「剔除并重排」保留这些图片并继续标记</span>
+                        </div>
+                        <IOSToggle checked={activeMaskRule.removeOnRepack} onChange={(e) => updateMaskRule(activeMaskRule.id, { removeOnRepack: e.target.checked })} />
+                     </div>
+                     </>
+                     )}
                      
                      <div className="grid grid-cols-2 gap-3 mt-4">
                         <button onClick={() => generate('apply')} className="py-3 rounded-xl bg-[#007AFF]/10 active:bg-[#007AFF]/20 text-[#007AFF] font-bold text-[15px] transition-all flex items-center justify-center gap-1">✨ 生成/更新</button>
@@ -969,18 +2226,28 @@ export default function App() {
                                 <span>生成完成</span>
                                 <span>{(generatedBlobs.reduce((a,b) => a+b.size, 0) / 1024 / 1024).toFixed(2)} MB</span>
                              </div>
+                             {exportNotice && <div className="text-[11px] text-orange-600 mt-1">{exportNotice}</div>}
                          </div>
                          <div className="result-scroll-container bg-gray-50/50 max-h-[50vh] overflow-y-auto p-2 border border-gray-200 rounded-xl mb-4">
-                             {generatedBlobs.map((blob, i) => (
-                                 <img key={i} src={URL.createObjectURL(blob)} className="w-full block border-b border-gray-100 last:border-0 mb-2 shadow-sm" alt="" />
-                             ))}
+                             {generatedBlobs.map((blob, i) => {
+                                 const overLimit = settings.exportTargetKB > 0 && blob.size > settings.exportTargetKB * 1024;
+                                 return (
+                                     <div key={i} className="relative mb-2">
+                                         <img src={URL.createObjectURL(blob)} className="w-full block border-b border-gray-100 last:border-0 shadow-sm" alt="" />
+                                         <span className={`absolute top-2 right-2 text-[11px] font-bold px-2 py-0.5 rounded-full text-white ${overLimit ? 'bg-[#FF3B30]' : 'bg-black/60'}`}>
+                                             {i + 1} · {extensionOf(blob).toUpperCase()} · {formatBytes(blob.size)}
+                                         </span>
+                                     </div>
+                                 );
+                             })}
                          </div>
-                         <div className="grid grid-cols-2 gap-3">
-                            <button onClick={downloadParts} className="col-span-2 bg-[#34C759] text-white text-[16px] font-bold py-4 rounded-xl shadow-lg active:scale-[0.98] transition flex items-center justify-center gap-2">
+                         <div className="grid grid-cols-3 gap-3">
+                            <button onClick={downloadParts} className="col-span-3 bg-[#34C759] text-white text-[16px] font-bold py-4 rounded-xl shadow-lg active:scale-[0.98] transition flex items-center justify-center gap-2">
                                 逐张下载 (防漏图)
                             </button>
                             <button onClick={combineAndDownload} className="bg-white text-black border border-gray-200 text-[14px] font-medium py-3 rounded-xl active:scale-95 transition">合并为长图</button>
                             <button onClick={downloadZip} className="bg-white text-[#007AFF] border border-gray-200 text-[14px] font-medium py-3 rounded-xl active:scale-95 transition">打包下载 (ZIP)</button>
+                            <button onClick={downloadPdf} className="bg-white text-[#FF3B30] border border-gray-200 text-[14px] font-medium py-3 rounded-xl active:scale-95 transition">导出 PDF</button>
                          </div>
                      </div>
                  </details>
@@ -1022,21 +2289,81 @@ export default function App() {
                <div className="bg-[#F2F2F2]/95 backdrop-blur-xl rounded-[14px] w-[270px] text-center shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
                     <div className="pt-5 px-4 pb-4">
                         <h3 className="text-[17px] font-bold text-black mb-1">⚠️ 警告</h3>
-                        <p className="text-[13px] text-black leading-snug">确定要重置吗？<br/>这将清空所有内容。</p>
+                        <p className="text-[13px] text-black leading-snug">确定要重置当前项目吗？<br/>这将清空该项目的图片与设置。</p>
                     </div>
                     <div className="flex border-t border-gray-300/50 h-[44px]">
                         <button onClick={() => setShowModal('none')} className="flex-1 text-[17px] text-[#007AFF] active:bg-gray-200 transition border-r border-gray-300/50">取消</button>
-                        <button onClick={async () => { 
-                            localStorage.removeItem(SETTINGS_KEY); 
-                            localStorage.removeItem(IMAGES_META_KEY); 
-                            await clearImagesDB();
-                            window.location.reload(); 
-                        }} className="flex-1 text-[17px] text-[#FF3B30] font-bold active:bg-gray-200 transition">重置</button>
+                        <button onClick={resetProject} className="flex-1 text-[17px] text-[#FF3B30] font-bold active:bg-gray-200 transition">重置</button>
                     </div>
                </div>
           </div>
       )}
 
+      {showModal === 'projects' && (
+          <ProjectManager
+              projects={projects}
+              activeId={activeProjectId}
+              onSwitch={switchProject}
+              onCreate={createProject}
+              onRename={renameProject}
+              onDuplicate={copyProject}
+              onDelete={removeProject}
+              onExport={exportProject}
+              onImport={importProject}
+              onClose={() => setShowModal('none')}
+          />
+      )}
+
+      {showModal === 'duplicates' && (
+          <DuplicateReview images={images} onRemove={removeSimilar} onClose={() => setShowModal('none')} />
+      )}
+
+      {showModal === 'imageActions' && images[targetImageIndex.current] && (
+          <ActionSheet
+              title={`图片 #${targetImageIndex.current + 1} · ${images[targetImageIndex.current].name}`}
+              actions={[
+                  { label: '裁剪 / 焦点', onClick: () => setShowModal('crop') },
+                  { label: `适应方式: ${FIT_LABELS[images[targetImageIndex.current].fit ?? 'default']}`, onClick: () => cycleImageFit(images[targetImageIndex.current]) },
+                  ...(settings.layoutMode === 'template' ? [{
+                      label: images[targetImageIndex.current].hero ? '★ 取消大图固定' : '★ 固定到模板大图位',
+                      onClick: () => { const img = images[targetImageIndex.current]; updateImageMeta(img.id, { hero: img.hero ? undefined : true }, 'hero'); }
+                  }] : []),
+                  ...(settings.captionSource === 'custom' ? [{
+                      label: '✎ 编辑文字说明',
+                      onClick: () => {
+                          const img = images[targetImageIndex.current];
+                          const text = window.prompt('文字说明', img.caption || '');
+                          if (text !== null && text !== (img.caption || '')) updateImageMeta(img.id, { caption: text.trim() || undefined }, 'caption');
+                          setShowModal('none');
+                      }
+                  }] : []),
+                  { label: '↻ 向右旋转 90°', onClick: () => orientImages(new Set([images[targetImageIndex.current].id]), 'rotateCW') },
+                  { label: '⇋ 水平翻转', onClick: () => orientImages(new Set([images[targetImageIndex.current].id]), 'flipH') },
+                  { label: '⇵ 垂直翻转', onClick: () => orientImages(new Set([images[targetImageIndex.current].id]), 'flipV') },
+                  { label: '替换', onClick: () => { setShowModal('none'); replaceInputRef.current?.click(); } },
+                  { label: '删除 (可撤销)', variant: 'danger', onClick: () => { setShowModal('none'); handleDelete(targetImageIndex.current); } }
+              ]}
+              onClose={() => setShowModal('none')}
+          />
+      )}
+
+      {showModal === 'sort' && (
+          <ActionSheet
+              title="排序方式 (可撤销)"
+              actions={SORT_MODES.map(({ mode, label }) => ({ label, onClick: () => handleSort(mode) }))}
+              onClose={() => setShowModal('none')}
+          />
+      )}
+
+      {showModal === 'crop' && images[targetImageIndex.current] && (
+          <CropEditor
+              image={images[targetImageIndex.current]}
+              ratio={getRatio()}
+              onSave={handleCropSave}
+              onClose={() => setShowModal('none')}
+          />
+      )}
+
       {showModal === 'note' && (
            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={() => setShowModal('none')}>
               <div className="bg-white w-[85%] max-w-[320px] rounded-2xl p-6 relative shadow-2xl" onClick={e => e.stopPropagation()}>
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { ImageCrop, ImageData } from '../types';
+import { DEFAULT_CROP, coverRect, normalizeCrop, orientedSize, transformCss } from '../utils/canvasUtils';
+
+const FRAME_MAX_W = 280;
+const FRAME_MAX_H = 360;
+const MAX_ZOOM = 4;
+
+interface CropEditorProps {
+  image: ImageData;
+  ratio: number; // Cell aspect ratio (w / h)
+  onSave: (crop: ImageCrop | undefined) => void;
+  onClose: () => void;
+}
+
+// Pan (drag) and zoom inside a cell-shaped frame. Only metadata changes; the blob is untouched.
+export const CropEditor: React.FC<CropEditorProps> = ({ image, ratio, onSave, onClose }) => {
+  const [crop, setCrop] = useState<ImageCrop>(image.crop || DEFAULT_CROP);
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(null); // Oriented (post-rotation) size
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  let frameW = FRAME_MAX_W;
+  let frameH = Math.round(frameW / ratio);
+  if (frameH > FRAME_MAX_H) { frameH = FRAME_MAX_H; frameW = Math.round(frameH * ratio); }
+
+  const rect = natural ? coverRect(natural.w, natural.h, frameW, frameH, crop) : null;
+  // The <img> box is unrotated; centre it on the rect and let CSS apply the transform
+  const sideways = !!image.transform && image.transform.rotate % 180 !== 0;
+  const boxW = rect ? (sideways ? rect.dh : rect.dw) : 0;
+  const boxH = rect ? (sideways ? rect.dw : rect.dh) : 0;
+
+  const update = (fn: (c: ImageCrop) => ImageCrop) => {
+    if (!natural) return;
+    setCrop(c => normalizeCrop(natural.w, natural.h, frameW, frameH, fn(c)));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current || !natural) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    update(c => {
+      const { dw, dh } = coverRect(natural.w, natural.h, frameW, frameH, c);
+      return { ...c, focusX: c.focusX - dx / dw, focusY: c.focusY - dy / dh };
+    });
+  };
+
+  const isDefault = crop.zoom === 1 && Math.abs(crop.focusX - 0.5) < 0.001 && Math.abs(crop.focusY - 0.5) < 0.001;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white w-[90%] max-w-[360px] rounded-2xl p-6 relative shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <h3 className="text-[18px] font-bold text-gray-900 mb-1">裁剪 / 焦点</h3>
+        <p className="text-[11px] text-gray-400 mb-4 truncate">拖动调整位置，滑块缩放 · {image.name}</p>
+
+        <div
+          className="relative mx-auto overflow-hidden rounded-lg checkered-bg touch-none cursor-move select-none"
+          style={{ width: frameW, height: frameH }}
+          onPointerDown={e => { dragRef.current = { x: e.clientX, y: e.clientY }; e.currentTarget.setPointerCapture(e.pointerId); }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onPointerCancel={() => { dragRef.current = null; }}
+          onWheel={e => update(c => ({ ...c, zoom: Math.min(MAX_ZOOM, Math.max(1, c.zoom - e.deltaY * 0.002)) }))}
+        >
+          <img
+            src={image.url}
+            alt=""
+            draggable={false}
+            onLoad={e => setNatural(orientedSize(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight, image.transform))}
+            className="absolute pointer-events-none"
+            style={rect ? {
+              left: rect.dx + (rect.dw - boxW) / 2,
+              top: rect.dy + (rect.dh - boxH) / 2,
+              width: boxW,
+              height: boxH,
+              maxWidth: 'none',
+              transform: transformCss(image.transform)
+            } : { opacity: 0 }}
+          />
+          {/* Rule-of-thirds guide */}
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }).map((_, i) => <div key={i} className="border border-white/30" />)}
+          </div>
+        </div>
+
+        <div className="flex items-center text-xs text-gray-500 mt-4">
+          <span className="w-8 text-right mr-3">缩放</span>
+          <input
+            type="range" min="1" max={MAX_ZOOM} step="0.01"
+            value={crop.zoom}
+            onChange={e => { const zoom = parseFloat(e.target.value); update(c => ({ ...c, zoom })); }}
+            className="flex-1"
+            style={{ touchAction: 'none' }}
+            onPointerDown={e => e.stopPropagation()}
+          />
+        </div>
+
+        <div className="flex gap-3 mt-5">
+          <button onClick={() => setCrop(DEFAULT_CROP)} className="px-4 bg-gray-100 text-gray-600 py-3 rounded-xl font-bold">重置</button>
+          <button onClick={onClose} className="flex-1 bg-gray-100 text-gray-600 py-3 rounded-xl font-bold">取消</button>
+          <button onClick={() => onSave(isDefault ? undefined : crop)} className="flex-1 bg-[#007AFF] text-white py-3 rounded-xl font-bold">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
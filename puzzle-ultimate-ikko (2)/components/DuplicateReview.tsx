@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { ImageData } from '../types';
+import { DEFAULT_SIMILARITY_THRESHOLD, groupNearDuplicates } from '../utils/phash';
+
+interface DuplicateReviewProps {
+  images: ImageData[];
+  onRemove: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ images, onRemove, onClose }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [keepOverrides, setKeepOverrides] = useState<Record<string, boolean>>({});
+
+  const groups = useMemo(() => groupNearDuplicates(images, threshold), [images, threshold]);
+  const pending = images.filter(i => i.hash === undefined).length;
+  const positions = useMemo(() => new Map(images.map((img, i) => [img.id, i + 1])), [images]);
+
+  // By default the first copy of each group (earliest in the list) is kept
+  const isKept = (id: string, indexInGroup: number) => keepOverrides[id] ?? indexInGroup === 0;
+  const toRemove = groups.flatMap(g => g.filter((img, k) => !isKept(img.id, k)).map(img => img.id));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white w-[92%] max-w-[480px] rounded-2xl p-6 relative shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <h3 className="text-[18px] font-bold text-gray-900 mb-1">相似图片检查</h3>
+        <p className="text-[11px] text-gray-400 mb-4">点击图片切换 保留 / 移除。移除后可撤销。</p>
+
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[13px] text-gray-500">相似度阈值</span>
+            <span className="text-[#007AFF] font-bold text-[13px]">{threshold === 0 ? '完全一致' : `≤ ${threshold} 位差异`}</span>
+          </div>
+          <input
+            type="range" min="0" max="16" step="1"
+            value={threshold}
+            onChange={e => setThreshold(parseInt(e.target.value))}
+            style={{ touchAction: 'none' }}
+            onPointerDown={e => e.stopPropagation()}
+          />
+        </div>
+
+        {pending > 0 && <div className="mb-3 text-xs text-[#007AFF] bg-[#007AFF]/5 rounded p-2">正在分析 {pending} 张图片...</div>}
+
+        <div className="max-h-[45vh] overflow-y-auto space-y-3 no-scrollbar">
+          {groups.length === 0 && <div className="text-center text-sm text-gray-400 py-8">未发现相似图片</div>}
+          {groups.map((group, g) => (
+            <div key={group[0].id} className="bg-gray-50 rounded-xl p-3 border border-gray-100">
+              <div className="text-[11px] text-gray-500 mb-2">第 {g + 1} 组 · {group.length} 张</div>
+              <div className="flex flex-wrap gap-2">
+                {group.map((img, k) => {
+                  const kept = isKept(img.id, k);
+                  return (
+                    <button
+                      key={img.id}
+                      onClick={() => setKeepOverrides(prev => ({ ...prev, [img.id]: !kept }))}
+                      className={`relative w-20 rounded-lg overflow-hidden border-2 transition ${kept ? 'border-[#34C759]' : 'border-transparent opacity-40'}`}
+                    >
+                      <img src={img.url} className="w-20 h-20 object-cover" loading="lazy" alt="" />
+                      <span className={`absolute top-1 right-1 text-[10px] font-bold px-1 rounded ${kept ? 'bg-[#34C759] text-white' : 'bg-[#FF3B30] text-white'}`}>{kept ? '保留' : '移除'}</span>
+                      <div className="text-[9px] text-gray-500 truncate px-1 py-0.5 bg-white">#{positions.get(img.id)} · {Math.round(img.size / 1024)}KB</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-4">
+          <button onClick={onClose} className="flex-1 bg-gray-100 text-gray-600 py-3 rounded-xl font-bold">取消</button>
+          <button
+            onClick={() => onRemove(toRemove)}
+            disabled={toRemove.length === 0}
+            className="flex-1 bg-[#FF3B30] text-white py-3 rounded-xl font-bold disabled:opacity-40"
+          >
+            移除 {toRemove.length} 张
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
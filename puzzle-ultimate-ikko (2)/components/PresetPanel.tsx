@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Preset } from '../types';
+import { ALL_SECTIONS, BUILT_IN_PRESETS, SETTINGS_SECTIONS, SettingsSection } from '../utils/presets';
+
+interface PresetPanelProps {
+  presets: Preset[]; // User presets; built-ins are always shown
+  onApply: (preset: Preset, sections: SettingsSection[]) => void;
+  onSave: () => void;
+  onDelete: (id: string) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ presets, onApply, onSave, onDelete }) => {
+  const [sections, setSections] = useState<SettingsSection[]>(ALL_SECTIONS);
+
+  const toggleSection = (section: SettingsSection) => {
+    setSections(prev => prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]);
+  };
+
+  const renderChip = (preset: Preset) => (
+    <div key={preset.id} className="flex items-center bg-[#007AFF]/10 rounded-full">
+      <button
+        onClick={() => sections.length ? onApply(preset, sections) : alert('请至少选择一个应用范围')}
+        className="text-[#007AFF] text-[13px] font-bold pl-3 pr-3 py-1.5 active:opacity-60 transition"
+      >
+        {preset.name}
+      </button>
+      {!preset.builtIn && (
+        <button onClick={() => onDelete(preset.id)} className="text-gray-400 hover:text-[#FF3B30] pr-3 -ml-1 text-xs">✕</button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-white">
+      <label className="text-[11px] text-gray-500 block mb-2">应用范围</label>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {ALL_SECTIONS.map(section => (
+          <label key={section} className="flex items-center cursor-pointer gap-1 bg-gray-100 px-2 py-1 rounded-md text-xs text-gray-500 font-bold active:bg-gray-200 transition">
+            <input type="checkbox" checked={sections.includes(section)} onChange={() => toggleSection(section)} className="accent-[#34C759]" />
+            <span>{SETTINGS_SECTIONS[section].label}</span>
+          </label>
+        ))}
+      </div>
+
+      <label className="text-[11px] text-gray-500 block mb-2">内置模板</label>
+      <div className="flex flex-wrap gap-2 mb-4">{BUILT_IN_PRESETS.map(renderChip)}</div>
+
+      <label className="text-[11px] text-gray-500 block mb-2">我的预设</label>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {presets.length === 0 && <span className="text-xs text-gray-300">暂无</span>}
+        {presets.map(renderChip)}
+      </div>
+
+      <button onClick={onSave} className="w-full py-2 border border-dashed border-gray-300 rounded-lg text-gray-500 text-sm active:bg-gray-50">+ 保存当前设置为预设</button>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { Project } from '../types';
+
+interface ProjectManagerProps {
+  projects: Project[];
+  activeId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({ projects, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExport, onImport, onClose }) => {
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white w-[85%] max-w-[360px] rounded-2xl p-6 relative shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-[18px] font-bold text-gray-900">项目管理</h3>
+          <button onClick={onCreate} className="text-[#007AFF] text-[13px] font-bold bg-[#007AFF]/10 px-3 py-1.5 rounded-full active:bg-[#007AFF]/20 transition">+ 新建</button>
+        </div>
+        <div className="divide-y divide-gray-100 max-h-[50vh] overflow-y-auto -mx-2">
+          {projects.map(p => (
+            <div key={p.id} className={`flex items-center gap-2 px-2 py-3 ${p.id === activeId ? 'bg-[#007AFF]/5 rounded-lg' : ''}`}>
+              <button onClick={() => onSwitch(p.id)} className="flex-1 min-w-0 text-left">
+                <div className={`text-[15px] font-bold truncate ${p.id === activeId ? 'text-[#007AFF]' : 'text-gray-900'}`}>{p.name}</div>
+                <div className="text-[10px] text-gray-400">{p.images.length} 张 · {new Date(p.updatedAt).toLocaleDateString()}</div>
+              </button>
+              <button onClick={() => onRename(p.id)} className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded active:bg-gray-200">重命名</button>
+              <button onClick={() => onDuplicate(p.id)} className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded active:bg-gray-200">复制</button>
+              <button onClick={() => onDelete(p.id)} className="text-xs text-[#FF3B30] bg-red-50 px-2 py-1 rounded active:bg-red-100">删除</button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3 mt-4">
+          <button onClick={onExport} className="bg-white text-[#007AFF] border border-gray-200 text-[14px] font-medium py-3 rounded-xl active:scale-95 transition">导出当前项目</button>
+          <button onClick={() => archiveInputRef.current?.click()} className="bg-white text-[#007AFF] border border-gray-200 text-[14px] font-medium py-3 rounded-xl active:scale-95 transition">导入 .puzzle</button>
+          <input
+            type="file"
+            ref={archiveInputRef}
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+        <button onClick={onClose} className="w-full mt-3 bg-[#007AFF] text-white py-3 rounded-xl font-bold">完成</button>
+      </div>
+    </div>
+  );
+};
@@ -51,4 +51,29 @@ export const SettingRow: React.FC<{ label: string; children: React.ReactNode; su
     </div>
     {subLabel && <div className="text-[10px] text-gray-400 mt-1">{subLabel}</div>}
   </div>
-);
\ No newline at end of file
+);
+export interface SheetAction {
+  label: string;
+  onClick: () => void;
+  variant?: 'danger' | 'default';
+}
+
+export const ActionSheet: React.FC<{ title?: string; actions: SheetAction[]; onClose: () => void }> = ({ title, actions, onClose }) => (
+  <div className="fixed inset-0 z-[200] flex items-end justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
+    <div className="w-full max-w-[420px] px-2 pb-4 animate-fade-in" onClick={e => e.stopPropagation()}>
+      <div className="bg-[#F2F2F2]/95 backdrop-blur-xl rounded-[14px] overflow-hidden divide-y divide-gray-300/50 mb-2">
+        {title && <div className="text-[13px] text-gray-500 text-center px-4 py-3 truncate">{title}</div>}
+        {actions.map(action => (
+          <button
+            key={action.label}
+            onClick={() => { onClose(); action.onClick(); }}
+            className={`w-full h-[56px] text-[20px] active:bg-gray-200 transition ${action.variant === 'danger' ? 'text-[#FF3B30]' : 'text-[#007AFF]'}`}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+      <button onClick={onClose} className="w-full h-[56px] bg-white rounded-[14px] text-[20px] font-bold text-[#007AFF] active:bg-gray-100 transition">取消</button>
+    </div>
+  </div>
+);
@@ -1,8 +1,106 @@
-export interface ImageData {
+// Non-destructive framing of an image inside its cell (cover fit).
+// focusX/focusY (0-1) is the image point kept at the cell centre; zoom >= 1 scales past cover.
+export interface ImageCrop {
+  focusX: number;
+  focusY: number;
+  zoom: number;
+}
+
+// Non-destructive orientation: rotate clockwise first, then mirror in display space
+export interface ImageTransform {
+  rotate: 0 | 90 | 180 | 270;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// How an image fills its cell: cover crops to fill, contain shows the whole image (letterboxed)
+export type FitMode = 'cover' | 'contain';
+export type LetterboxFill = 'blur' | 'color' | 'transparent';
+
+// Numbering label styles (see utils/numbering.ts)
+export type NumberStyle = 'decimal' | 'alpha-upper' | 'alpha-lower' | 'roman-upper' | 'roman-lower' | 'chinese' | 'row-col';
+
+// Where a cell's caption text comes from (see utils/captions.ts)
+export type CaptionSource = 'filename' | 'regex' | 'custom';
+
+// How cells are arranged on a sheet (see utils/layout.ts)
+export type LayoutMode = 'grid' | 'justified' | 'masonry' | 'template';
+
+// How a mask rule marks its cells (see utils/maskRules.ts). blur/mosaic/fill hide the image itself.
+export type MaskMode = 'line' | 'image' | 'text' | 'blur' | 'mosaic' | 'fill';
+
+// Part of a cell, as fractions (0-1) of its width and height
+export interface MaskArea {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// One group of masked cells with its own look, e.g. "已售" crossed out and "预定" stamped
+export interface MaskRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  target: string; // Mask expression (see utils/maskQuery.ts)
+  mode: MaskMode;
+  lineStyle: 'cross' | 'slash';
+  color: string; // Lines and text stamp
+  width: number; // Line / stamp border thickness, 1-20
+  stickerImgUrl: string | null;
+  text: string; // Stamp text, or the label centred on a fill
+  textColor: string; // Fill label
+  size: number; // Sticker / stamp width, % of the cell
+  posX: number; // Sticker / stamp centre, % of the cell
+  posY: number;
+  area: MaskArea | null; // blur/mosaic/fill: part of the cell to hide, null = whole cell
+  blurRadius: number; // % of the cell width
+  mosaicSize: number; // Block size, % of the cell width
+  fillOpacity: number; // 0-1
+  removeOnRepack: boolean; // "剔除并重排" drops these cells instead of marking them
+}
+
+// Encoded sheet format (see utils/exportFormats.ts)
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+// PDF page box: the sheet's own size, or paper (see utils/pdf.ts)
+export type PdfPageSize = 'fit' | 'a4' | 'letter';
+
+// Animated GIF frames: one per image, or one per generated sheet (see utils/gif.ts)
+export type GifSource = 'images' | 'sheets';
+
+// What shows behind the cells and in the gaps
+export type BackgroundMode = 'color' | 'gradient' | 'transparent';
+
+// Where the title / page band goes on each sheet (see utils/sheetBand.ts)
+export type SheetBandPosition = 'top' | 'bottom' | 'both';
+
+// How the overlay image is laid over a sheet (see utils/overlay.ts)
+export type OverlayPlacement = 'stretch' | 'tile' | 'contain' | 'cover' | 'cell';
+export type OverlayAnchor =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center-left' | 'center' | 'center-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// Persisted per-image metadata; the blob itself lives in IndexedDB under `id`
+export interface ImageMeta {
   id: string;
-  url: string;
   name: string;
   size: number;
+  hash?: string | null; // dHash as 16 hex chars; null = undecodable, undefined = not computed yet
+  addedAt?: number; // Import time (ms), bumped per file so it is unique; missing on pre-sort data
+  takenAt?: number | null; // EXIF capture time; null = none found, undefined = not read yet
+  width?: number; // Natural pixel size, measured on demand for ratio-aware layouts
+  height?: number;
+  crop?: ImageCrop;
+  fit?: FitMode; // Overrides AppSettings.fitMode for this image
+  transform?: ImageTransform; // Crop focus is relative to the transformed image
+  hero?: boolean; // Pinned to a template's hero cell
+  caption?: string; // Custom caption text (used when captionSource is 'custom')
+}
+
+export interface ImageData extends ImageMeta {
+  url: string;
 }
 
 export interface AppSettings {
@@ -14,10 +112,27 @@ export interface AppSettings {
   gap: number;
   cols: number;
   groupRows: number;
+  padding: number; // Outer canvas margin (px), separate from gap
+  bgMode: BackgroundMode;
+  bgColor: string;
+  bgGradientFrom: string;
+  bgGradientTo: string;
+  bgGradientAngle: number; // Degrees, 0 = left to right, 90 = top to bottom
+  cellRadius: number; // px
+  cellBorderWidth: number; // px, 0 = none
+  cellBorderColor: string;
+  layoutMode: LayoutMode;
+  templateId: string; // Built-in template used by the 'template' layout
+  fitMode: FitMode;
+  letterboxFill: LetterboxFill; // What fills the empty space in contain mode
+  letterboxColor: string;
 
   // Numbering
   showNum: boolean;
   startNumber: number;
+  numStyle: NumberStyle;
+  numPad: number; // Zero-pad decimal labels to this many digits (0 = off)
+  numTemplate: string; // Label template, {n} = the number, e.g. "No.{n}"
   fontSize: number;
   fontColor: string;
   fontStrokeColor: string;
@@ -27,29 +142,102 @@ export interface AppSettings {
   enableShadow: boolean;
   fontFamily: string;
   fontPos: 'bottom-center' | 'bottom-left' | 'bottom-right' | 'center' | 'top-left' | 'top-right';
+  numMarginX: number; // Inset from the cell edge for left/right positions (px)
+  numMarginY: number; // Inset from the cell edge for top/bottom positions (px)
+  numBadge: 'none' | 'circle' | 'pill' | 'square';
+  numBadgeColor: string;
+  numBadgeOpacity: number;
+  numBadgePadding: number;
+  numBadgeRadius: number; // Square badge corner radius (px)
+  numAutoContrast: boolean; // Pick light/dark text per cell from the pixels under the label
+
+  // Captions
+  showCaption: boolean;
+  captionSource: CaptionSource;
+  captionRegex: string; // First capture group (or whole match) of the filename without extension
+  captionFontSize: number;
+  captionFontFamily: string;
+  captionFontWeight: string;
+  captionColor: string;
+  captionBand: boolean;
+  captionBandColor: string;
+  captionBandOpacity: number;
+  captionPos: 'top' | 'bottom';
+  captionAlign: 'left' | 'center' | 'right';
+  captionOverflow: 'wrap' | 'truncate';
+  captionMaxLines: number;
 
   // Export
-  exportQuality: number; // 10-100
+  exportFormat: ExportFormat;
+  exportQuality: number; // 10-100, lossy formats
+  exportTargetKB: number; // Max size per sheet, 0 = off; lowers the quality to fit
+  pdfPageSize: PdfPageSize;
+  pdfMargin: number; // mm
+  gifSource: GifSource;
+  gifFrameMs: number; // Per frame
+  gifLoop: number; // Times to play, 0 = forever
+  gifWidth: number; // px; height follows the cell (or sheet) ratio
+  gifDither: boolean;
   
   // Overlay
   overlayImgUrl: string | null;
   overlayOpacity: number;
   overlayMode: GlobalCompositeOperation;
+  overlayPlacement: OverlayPlacement;
+  overlayAnchor: OverlayAnchor; // contain / cover / cell
+  overlayScale: number; // %: of the fitted size, or of the image's own size when tiling
+  overlayMargin: number; // % of the shorter side: inset for fitted placements, gap between tiles
 
-  // Masking
-  maskIndicesStr: string;
-  maskMode: 'line' | 'image';
-  lineStyle: 'cross' | 'slash';
-  maskColor: string;
-  maskWidth: number;
-  
-  // Sticker
-  stickerImgUrl: string | null;
-  stickerSize: number;
-  stickerX: number;
-  stickerY: number;
+  // Tiled text watermark (see utils/watermark.ts)
+  showWatermark: boolean;
+  watermarkText: string; // {date} and {group} are filled in per sheet
+  watermarkFontFamily: string;
+  watermarkFontWeight: string;
+  watermarkSize: number; // % of the sheet width
+  watermarkColor: string;
+  watermarkAngle: number; // Degrees
+  watermarkSpacing: number; // Gap between copies, % of the sheet width
+  watermarkOpacity: number;
+  watermarkBlend: GlobalCompositeOperation;
+
+  // Header / footer band around each sheet (see utils/sheetBand.ts)
+  showBand: boolean;
+  bandPosition: SheetBandPosition;
+  bandHeight: number; // px, per band
+  bandTitle: string; // {date}, {group} and {total} are filled in per sheet
+  bandSubtitle: string;
+  bandShowDate: boolean;
+  bandPageFormat: string; // Empty hides the page indicator
+  bandFontFamily: string;
+  bandBgColor: string;
+  bandTitleColor: string;
+  bandTextColor: string; // Subtitle, date and page
+
+  // Masking, applied in list order
+  maskRules: MaskRule[];
 }
 
+export const DEFAULT_MASK_RULE: Omit<MaskRule, 'id'> = {
+  name: '打码',
+  enabled: true,
+  target: '',
+  mode: 'line',
+  lineStyle: 'cross',
+  color: '#FF3B30',
+  width: 10,
+  stickerImgUrl: null,
+  text: '已售',
+  textColor: '#FFFFFF',
+  size: 50,
+  posX: 50,
+  posY: 50,
+  area: null,
+  blurRadius: 3,
+  mosaicSize: 6,
+  fillOpacity: 1,
+  removeOnRepack: true,
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
   aspectRatio: 0.5625, // 9:16 default
   isCustomRatio: false,
@@ -58,9 +246,26 @@ export const DEFAULT_SETTINGS: AppSettings = {
   gap: 0,
   cols: 3,
   groupRows: 0, // 0 means Auto (all in one group)
+  padding: 0,
+  bgMode: 'color',
+  bgColor: '#FFFFFF',
+  bgGradientFrom: '#FFFFFF',
+  bgGradientTo: '#E5E5EA',
+  bgGradientAngle: 90,
+  cellRadius: 0,
+  cellBorderWidth: 0,
+  cellBorderColor: '#E5E5EA',
+  layoutMode: 'grid',
+  templateId: 'hero-2x2-4col',
+  fitMode: 'cover',
+  letterboxFill: 'blur',
+  letterboxColor: '#FFFFFF',
   
   showNum: true,
   startNumber: 1,
+  numStyle: 'decimal',
+  numPad: 0,
+  numTemplate: '{n}',
   fontSize: 350,
   fontColor: '#FFFFFF',
   fontStrokeColor: '#000000',
@@ -70,21 +275,89 @@ export const DEFAULT_SETTINGS: AppSettings = {
   enableShadow: true,
   fontFamily: 'sans-serif',
   fontPos: 'bottom-center',
+  numMarginX: 20,
+  numMarginY: 20,
+  numBadge: 'none',
+  numBadgeColor: '#000000',
+  numBadgeOpacity: 0.6,
+  numBadgePadding: 40,
+  numBadgeRadius: 24,
+  numAutoContrast: false,
+
+  showCaption: false,
+  captionSource: 'filename',
+  captionRegex: '',
+  captionFontSize: 90,
+  captionFontFamily: 'sans-serif',
+  captionFontWeight: 'normal',
+  captionColor: '#FFFFFF',
+  captionBand: true,
+  captionBandColor: '#000000',
+  captionBandOpacity: 0.5,
+  captionPos: 'bottom',
+  captionAlign: 'center',
+  captionOverflow: 'wrap',
+  captionMaxLines: 2,
   
+  exportFormat: 'jpeg',
   exportQuality: 80,
+  exportTargetKB: 0,
+  pdfPageSize: 'a4',
+  pdfMargin: 10,
+  gifSource: 'images',
+  gifFrameMs: 800,
+  gifLoop: 0,
+  gifWidth: 480,
+  gifDither: true,
   
   overlayImgUrl: null,
   overlayOpacity: 1,
   overlayMode: 'source-over',
+  overlayPlacement: 'stretch',
+  overlayAnchor: 'center',
+  overlayScale: 100,
+  overlayMargin: 0,
+
+  showWatermark: false,
+  watermarkText: '仅供预览 {date}',
+  watermarkFontFamily: 'sans-serif',
+  watermarkFontWeight: 'bold',
+  watermarkSize: 3,
+  watermarkColor: '#FFFFFF',
+  watermarkAngle: -30,
+  watermarkSpacing: 8,
+  watermarkOpacity: 0.3,
+  watermarkBlend: 'source-over',
+
+  showBand: false,
+  bandPosition: 'top',
+  bandHeight: 160,
+  bandTitle: '',
+  bandSubtitle: '',
+  bandShowDate: true,
+  bandPageFormat: '{group}/{total}',
+  bandFontFamily: 'sans-serif',
+  bandBgColor: '#FFFFFF',
+  bandTitleColor: '#1C1C1E',
+  bandTextColor: '#8E8E93',
   
-  maskIndicesStr: '',
-  maskMode: 'line',
-  lineStyle: 'cross',
-  maskColor: '#FF3B30',
-  maskWidth: 10,
-  
-  stickerImgUrl: null,
-  stickerSize: 50,
-  stickerX: 50,
-  stickerY: 50,
-};
\ No newline at end of file
+  maskRules: [{ ...DEFAULT_MASK_RULE, id: 'mask-default' }],
+};
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  images: ImageMeta[]; // In display order
+  settings: AppSettings; // Uploaded asset URLs are stored as `asset:<id>` refs
+}
+
+// Named bundle of settings. Never carries uploaded assets (overlay/sticker images).
+export interface Preset {
+  id: string;
+  name: string;
+  createdAt: number;
+  builtIn?: boolean;
+  settings: Partial<AppSettings>;
+}
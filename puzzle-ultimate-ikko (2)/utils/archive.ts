@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import { AppSettings, ImageMeta, Preset, Project } from '../types';
+import { createId, getImageFromDB, getAssetFromDB, saveBatchImagesToDB, saveAssetToDB, saveProjectToDB, savePresetToDB } from './storage';
+import { newProject, assetIdsOf, remapAssetIds } from './projects';
+
+export const ARCHIVE_EXTENSION = '.puzzle';
+
+const ARCHIVE_FORMAT = 'puzzle-ultimate-archive';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const CHUNK_SIZE = 40;
+
+// A .puzzle file is a ZIP: manifest.json + images/<id> + assets/<id>
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: number;
+  images: (ImageMeta & { type: string })[]; // In display order
+  assets: Record<string, string>; // Asset id -> MIME type
+  settings: AppSettings; // Asset refs point into assets/
+  presets?: Preset[]; // User presets travel with the project
+}
+
+export const exportArchive = async (project: Project, presets: Preset[], onProgress?: (text: string) => void): Promise<Blob> => {
+  const zip = new JSZip();
+  const images: ArchiveManifest['images'] = [];
+
+  for (let i = 0; i < project.images.length; i += CHUNK_SIZE) {
+    const chunk = project.images.slice(i, i + CHUNK_SIZE);
+    const blobs = await Promise.all(chunk.map(meta => getImageFromDB(meta.id)));
+    chunk.forEach((meta, k) => {
+      const blob = blobs[k];
+      if (!blob) return; // Missing from IndexedDB, nothing to carry over
+      zip.file(`images/${meta.id}`, blob);
+      images.push({ ...meta, type: blob.type });
+    });
+    onProgress?.(`正在读取图片 ${Math.min(i + CHUNK_SIZE, project.images.length)} / ${project.images.length}`);
+  }
+
+  const assets: Record<string, string> = {};
+  for (const id of assetIdsOf(project.settings)) {
+    const blob = await getAssetFromDB(id);
+    if (!blob) continue;
+    zip.file(`assets/${id}`, blob);
+    assets[id] = blob.type;
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    name: project.name,
+    exportedAt: Date.now(),
+    images,
+    assets,
+    settings: remapAssetIds(project.settings, id => (assets[id] !== undefined ? id : null)),
+    presets
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest));
+
+  // Images are already compressed, so store them as-is
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' }, meta => {
+    onProgress?.(`正在打包 ${Math.round(meta.percent)}%`);
+  });
+};
+
+// Rebuilds an archive as a brand-new project (fresh ids, so importing twice never collides)
+export const importArchive = async (file: Blob, onProgress?: (text: string) => void): Promise<Project> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error('无法读取文件，请确认是 .puzzle 项目文件');
+  }
+
+  const manifestEntry = zip.file(MANIFEST_FILE);
+  if (!manifestEntry) throw new Error('文件缺少 manifest.json');
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(await manifestEntry.async('string'));
+  } catch (e) {
+    throw new Error('manifest.json 已损坏');
+  }
+  if (manifest.format !== ARCHIVE_FORMAT) throw new Error('不是拼图项目文件');
+  if (manifest.version > ARCHIVE_VERSION) throw new Error('项目文件版本过新，请先更新应用');
+
+  const images: ImageMeta[] = [];
+  for (let i = 0; i < manifest.images.length; i += CHUNK_SIZE) {
+    const chunk = manifest.images.slice(i, i + CHUNK_SIZE);
+    const copies = await Promise.all(chunk.map(async ({ type, ...meta }) => {
+      const entry = zip.file(`images/${meta.id}`);
+      if (!entry) return null;
+      // JSZip drops the MIME type; restore it so object URLs decode like the originals
+      const blob = new Blob([await entry.async('blob')], { type });
+      return { meta: { ...meta, id: createId() }, blob };
+    }));
+    const batch = copies.filter((c): c is { meta: ImageMeta, blob: Blob } => !!c);
+    await saveBatchImagesToDB(batch.map(c => ({ id: c.meta.id, blob: c.blob })));
+    batch.forEach(c => images.push(c.meta));
+    onProgress?.(`正在导入图片 ${Math.min(i + CHUNK_SIZE, manifest.images.length)} / ${manifest.images.length}`);
+  }
+
+  const assetIds = new Map<string, string>();
+  for (const [id, type] of Object.entries(manifest.assets || {})) {
+    const entry = zip.file(`assets/${id}`);
+    if (!entry) continue;
+    const newId = createId();
+    await saveAssetToDB(newId, new Blob([await entry.async('blob')], { type }));
+    assetIds.set(id, newId);
+  }
+
+  // Presets keep their ids, so re-importing on the same device updates instead of duplicating
+  for (const preset of manifest.presets || []) {
+    await savePresetToDB({ ...preset, builtIn: false });
+  }
+
+  const project: Project = {
+    ...newProject(manifest.name || '导入的项目'),
+    images,
+    settings: remapAssetIds(manifest.settings, id => assetIds.get(id))
+  };
+  await saveProjectToDB(project);
+  return project;
+};
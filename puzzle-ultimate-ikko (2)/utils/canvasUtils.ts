@@ -1,105 +1,412 @@
-import { ImageData, AppSettings } from '../types';
+import { ImageData, ImageMeta, ImageCrop, ImageTransform, AppSettings, FitMode } from '../types';
+import type { SheetLayout } from './layout';
+import { GridPosition, formatNumber, numberFormatOf } from './numbering';
+import { compileCaptionRegex, drawCaption, resolveCaption } from './captions';
+import { coversImage, drawMaskRule } from './maskRules';
+import { drawWatermark } from './watermark';
+import { drawOverlay } from './overlay';
+import { drawSheetBands, sheetBandHeights } from './sheetBand';
 
 const MAX_CANVAS_DIMENSION = 8192;
+const MAX_CANVAS_HEIGHT = 32767; // Tallest canvas browsers will encode; taller ones fail silently
 const CONCURRENCY_LIMIT = 8; // Adjust based on memory/performance balance
+const BLUR_FILL_SIZE = 24; // Letterbox blur: shrink the cover copy to this many px, then stretch it back
+
+// Drawing runs both on the page and inside render workers, so accept either context
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+// Object URL on the main thread, raw Blob when handed to a worker
+export type ImageSource = string | Blob;
+export type LoadedImage = HTMLImageElement | ImageBitmap;
+
+// One cell's image plus the per-image metadata that affects how it is painted
+export interface DrawItem {
+  src: ImageSource | null; // null: the image couldn't be read, drawn as an error cell
+  crop?: ImageCrop;
+  fit?: FitMode;
+  transform?: ImageTransform;
+  name?: string;    // Caption sources
+  caption?: string;
+}
 
 export interface DrawOptions {
-  ctx: CanvasRenderingContext2D;
-  images: string[]; // URLs
-  rows: number;
-  cols: number;
-  w: number;
-  h: number;
-  gap: number;
-  globalOffset: number;
+  ctx: Canvas2D;
+  images: DrawItem[];
+  layout: SheetLayout; // Sheet size and one cell per image; numbering continues from layout.start
   startNum: number;
-  maskIndices: number[];
+  sheetIndex?: number; // 0-based, for the watermark's and band's {group}
+  sheetCount?: number; // For the band's {total}
+  maskTargets: Record<string, number[]>; // Mask rule id -> numbers it covers
   settings: AppSettings;
   applyMask: boolean;
   isCancelled: () => boolean;
   onProgress?: (count: number) => void;
+  opaque?: boolean; // JPEG has no alpha: back transparent areas with white instead of letting them turn black
+  assets?: Record<string, Blob>; // Pre-fetched sticker/overlay blobs keyed by their URL (worker only)
 }
 
-export const parseMaskIndices = (input: string): number[] => {
-  const indices: number[] = [];
-  const parts = input.split(/[,，、\s]+/);
-  parts.forEach(part => {
-    part = part.trim();
-    if (!part) return;
-    const standardPart = part.replace(/[~—–]/g, '-');
-    if (standardPart.includes('-')) {
-      const rangeParts = standardPart.split('-');
-      if (rangeParts.length === 2) {
-        const s = parseInt(rangeParts[0]);
-        const e = parseInt(rangeParts[1]);
-        if (!isNaN(s) && !isNaN(e)) {
-          for (let k = Math.min(s, e); k <= Math.max(s, e); k++) indices.push(k);
-        }
-      }
-    } else {
-      const num = parseInt(standardPart);
-      if (!isNaN(num)) indices.push(num);
+export const loadImage = async (src: ImageSource): Promise<LoadedImage> => {
+  if (typeof src !== 'string') return createImageBitmap(src);
+  // Workers have no Image element: fetch the object URL and decode to a bitmap
+  if (typeof Image === 'undefined') return createImageBitmap(await (await fetch(src)).blob());
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  return img;
+};
+
+const releaseImage = (img: LoadedImage) => {
+  if ('close' in img) img.close();
+  else img.src = '';
+};
+
+export const measureImage = async (src: ImageSource): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(src);
+  const size = { width: img.width, height: img.height };
+  releaseImage(img);
+  return size;
+};
+
+export const toDrawItem = (img: ImageData): DrawItem => ({
+  src: img.url, crop: img.crop, fit: img.fit, transform: img.transform, name: img.name, caption: img.caption
+});
+
+// Small offscreen surface for intermediate drawing; DOM canvas where OffscreenCanvas is missing
+export const createScratchCanvas = (w: number, h: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(w, h);
+  const canvas = document.createElement('canvas');
+  canvas.width = w; canvas.height = h;
+  return canvas;
+};
+
+export const DEFAULT_CROP: ImageCrop = { focusX: 0.5, focusY: 0.5, zoom: 1 };
+
+// Cover-fit an iw x ih image into a w x h cell, honouring the crop. The rect is relative to
+// the cell's top-left and always covers the whole cell (the focus is clamped at the edges).
+export const coverRect = (iw: number, ih: number, w: number, h: number, crop: ImageCrop = DEFAULT_CROP) => {
+  const scale = Math.max(w / iw, h / ih) * Math.max(1, crop.zoom);
+  const dw = iw * scale;
+  const dh = ih * scale;
+  const dx = Math.min(0, Math.max(w - dw, w / 2 - crop.focusX * dw));
+  const dy = Math.min(0, Math.max(h - dh, h / 2 - crop.focusY * dh));
+  return { dx, dy, dw, dh };
+};
+
+// Contain-fit: the whole image, centred, leaving bars on two sides
+export const containRect = (iw: number, ih: number, w: number, h: number) => {
+  const scale = Math.min(w / iw, h / ih);
+  const dw = iw * scale;
+  const dh = ih * scale;
+  return { dx: (w - dw) / 2, dy: (h - dh) / 2, dw, dh };
+};
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotate: 0, flipH: false, flipV: false };
+
+const isIdentity = (t: ImageTransform) => t.rotate === 0 && !t.flipH && !t.flipV;
+
+export type OrientOp = 'rotateCW' | 'rotateCCW' | 'flipH' | 'flipV';
+
+// Applies one more rotate/flip on top of the current display. The crop focus is moved along
+// so the same part of the picture stays centred.
+export const reorient = ({ transform = IDENTITY_TRANSFORM, crop }: ImageMeta, op: OrientOp): Pick<ImageMeta, 'transform' | 'crop'> => {
+  let next: ImageTransform;
+  let focus = crop && { focusX: crop.focusX, focusY: crop.focusY };
+  if (op === 'flipH' || op === 'flipV') {
+    next = op === 'flipH' ? { ...transform, flipH: !transform.flipH } : { ...transform, flipV: !transform.flipV };
+    if (focus) focus = op === 'flipH' ? { ...focus, focusX: 1 - focus.focusX } : { ...focus, focusY: 1 - focus.focusY };
+  } else {
+    // Rotating after a flip is the same as rotating first and flipping the other axis
+    const cw = op === 'rotateCW';
+    next = {
+      rotate: ((transform.rotate + (cw ? 90 : 270)) % 360) as ImageTransform['rotate'],
+      flipH: transform.flipV,
+      flipV: transform.flipH
+    };
+    if (focus) focus = cw ? { focusX: 1 - focus.focusY, focusY: focus.focusX } : { focusX: focus.focusY, focusY: 1 - focus.focusX };
+  }
+  return {
+    transform: isIdentity(next) ? undefined : next,
+    crop: crop && focus ? { ...crop, ...focus } : undefined
+  };
+};
+
+// Dimensions of the image as displayed, i.e. after rotation
+export const orientedSize = (iw: number, ih: number, t?: ImageTransform) =>
+  t && t.rotate % 180 !== 0 ? { w: ih, h: iw } : { w: iw, h: ih };
+
+// CSS equivalent of drawOriented, for thumbnails and the crop editor
+export const transformCss = (t?: ImageTransform): string | undefined =>
+  t ? `scale(${t.flipH ? -1 : 1}, ${t.flipV ? -1 : 1}) rotate(${t.rotate}deg)` : undefined;
+
+// Paint `img` so that its oriented version fills the rect (dx, dy, dw, dh)
+export const drawOriented = (ctx: Canvas2D, img: CanvasImageSource, dx: number, dy: number, dw: number, dh: number, t?: ImageTransform) => {
+  if (!t || isIdentity(t)) {
+    ctx.drawImage(img, dx, dy, dw, dh);
+    return;
+  }
+  const sideways = t.rotate % 180 !== 0;
+  const bw = sideways ? dh : dw;
+  const bh = sideways ? dw : dh;
+  ctx.save();
+  ctx.translate(dx + dw / 2, dy + dh / 2);
+  ctx.scale(t.flipH ? -1 : 1, t.flipV ? -1 : 1);
+  ctx.rotate((t.rotate * Math.PI) / 180);
+  ctx.drawImage(img, -bw / 2, -bh / 2, bw, bh);
+  ctx.restore();
+};
+
+// Snap the focus to what is actually shown at the cell centre, so panning past an edge doesn't build up slack
+export const normalizeCrop = (iw: number, ih: number, w: number, h: number, crop: ImageCrop): ImageCrop => {
+  const { dx, dy, dw, dh } = coverRect(iw, ih, w, h, crop);
+  return { zoom: Math.max(1, crop.zoom), focusX: (w / 2 - dx) / dw, focusY: (h / 2 - dy) / dh };
+};
+
+// Rewrites every settings field that points at an uploaded image (overlay, mask rule stickers)
+export const mapSettingsAssets = (settings: AppSettings, fn: (url: string) => string | null): AppSettings => ({
+  ...settings,
+  overlayImgUrl: settings.overlayImgUrl ? fn(settings.overlayImgUrl) : null,
+  maskRules: settings.maskRules.map(rule => ({ ...rule, stickerImgUrl: rule.stickerImgUrl ? fn(rule.stickerImgUrl) : null })),
+});
+
+// URLs of every auxiliary image drawAsync may load, so callers can ship them to a worker
+export const collectAssetUrls = (settings: AppSettings): string[] => {
+  const urls: string[] = [];
+  mapSettingsAssets(settings, url => { urls.push(url); return url; });
+  return urls;
+};
+
+// Background behind a contain-fitted image. Blur is done by down- then up-scaling rather than
+// ctx.filter, which Safari's canvas (and OffscreenCanvas) doesn't support.
+const drawLetterbox = (ctx: Canvas2D, img: LoadedImage, x: number, y: number, w: number, h: number, settings: AppSettings, t?: ImageTransform) => {
+  if (settings.letterboxFill === 'transparent') {
+    ctx.clearRect(x, y, w, h);
+  } else if (settings.letterboxFill === 'color') {
+    ctx.fillStyle = settings.letterboxColor;
+    ctx.fillRect(x, y, w, h);
+  } else {
+    const sw = Math.max(1, Math.round(BLUR_FILL_SIZE * Math.min(1, w / h)));
+    const sh = Math.max(1, Math.round(BLUR_FILL_SIZE * Math.min(1, h / w)));
+    const small = createScratchCanvas(sw, sh);
+    const sctx = small.getContext('2d') as Canvas2D | null;
+    if (!sctx) return;
+    const oriented = orientedSize(img.width, img.height, t);
+    const { dx, dy, dw, dh } = coverRect(oriented.w, oriented.h, sw, sh);
+    drawOriented(sctx, img, dx, dy, dw, dh, t);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, x, y, w, h);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.15)'; // Dim it so the sharp copy stands out
+    ctx.fillRect(x, y, w, h);
+  }
+};
+
+// Rounded rectangle path via arcTo (ctx.roundRect is missing on older Safari)
+export const traceRoundRect = (ctx: Canvas2D, x: number, y: number, w: number, h: number, r: number) => {
+  const radius = Math.max(0, Math.min(r, w / 2, h / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+};
+
+const hexLuminance = (hex: string): number => {
+  const m = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i);
+  if (!m) return 0;
+  return 0.299 * parseInt(m[1], 16) + 0.587 * parseInt(m[2], 16) + 0.114 * parseInt(m[3], 16);
+};
+
+// Mean luminance (0-255) of what is already painted in a region; ~400 sparse samples
+const sampleLuminance = (ctx: Canvas2D, x: number, y: number, w: number, h: number): number | null => {
+  const sx = Math.max(0, Math.floor(x));
+  const sy = Math.max(0, Math.floor(y));
+  const sw = Math.min(ctx.canvas.width - sx, Math.ceil(w));
+  const sh = Math.min(ctx.canvas.height - sy, Math.ceil(h));
+  if (sw <= 0 || sh <= 0) return null;
+  try {
+    const { data } = ctx.getImageData(sx, sy, sw, sh);
+    const step = Math.max(1, Math.floor(sw * sh / 400)) * 4;
+    let sum = 0, count = 0;
+    for (let p = 0; p < data.length; p += step) {
+      sum += 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+      count++;
     }
-  });
-  return indices;
+    return count ? sum / count : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Sheet background behind the cells and gaps. Transparent leaves the fresh canvas clear.
+const drawBackground = (ctx: Canvas2D, width: number, height: number, settings: AppSettings) => {
+  if (settings.bgMode === 'transparent') return;
+  if (settings.bgMode === 'gradient') {
+    // Gradient line through the centre at bgGradientAngle (0 = left to right), long enough to reach the corners
+    const a = (settings.bgGradientAngle * Math.PI) / 180;
+    const half = (Math.abs(width * Math.cos(a)) + Math.abs(height * Math.sin(a))) / 2;
+    const dx = Math.cos(a) * half, dy = Math.sin(a) * half;
+    const gradient = ctx.createLinearGradient(width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy);
+    gradient.addColorStop(0, settings.bgGradientFrom);
+    gradient.addColorStop(1, settings.bgGradientTo);
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = settings.bgColor;
+  }
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Drawn inside the cell so it never spills into the gap
+const drawCellBorder = (ctx: Canvas2D, x: number, y: number, w: number, h: number, settings: AppSettings) => {
+  const bw = settings.cellBorderWidth;
+  if (bw <= 0) return;
+  ctx.save();
+  ctx.strokeStyle = settings.cellBorderColor;
+  ctx.lineWidth = bw;
+  traceRoundRect(ctx, x + bw / 2, y + bw / 2, w - bw, h - bw, Math.max(0, settings.cellRadius - bw / 2));
+  ctx.stroke();
+  ctx.restore();
+};
+
+const LIGHT_TEXT = '#FFFFFF';
+const DARK_TEXT = '#1C1C1E';
+
+// Number label: optional badge behind it, positioned by fontPos and the margin insets.
+// The box is measured from the glyphs, so every position uses the same margins.
+const drawNumberLabel = (ctx: Canvas2D, label: string, x: number, y: number, w: number, h: number, settings: AppSettings) => {
+  const { fontPos, fontSize, numBadge } = settings;
+  ctx.save();
+  ctx.font = `${settings.fontWeight || 'bold'} ${fontSize}px ${settings.fontFamily}`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  const metrics = ctx.measureText(label);
+  const ascent = metrics.actualBoundingBoxAscent || fontSize * 0.72;
+  const descent = metrics.actualBoundingBoxDescent || 0;
+  const textW = metrics.width;
+  const textH = ascent + descent;
+
+  const pad = numBadge === 'none' ? 0 : settings.numBadgePadding;
+  let boxW = textW + pad * 2;
+  let boxH = textH + pad * 2;
+  if (numBadge === 'circle') boxW = boxH = Math.max(boxW, boxH);
+  else if (numBadge === 'pill') boxW = Math.max(boxW, boxH);
+
+  const boxX = fontPos.includes('left') ? x + settings.numMarginX
+    : fontPos.includes('right') ? x + w - settings.numMarginX - boxW
+    : x + (w - boxW) / 2;
+  const boxY = fontPos.includes('top') ? y + settings.numMarginY
+    : fontPos === 'center' ? y + (h - boxH) / 2
+    : y + h - settings.numMarginY - boxH;
+
+  // Auto-contrast judges what the text will actually sit on: the photo, blended with the badge
+  let textColor = settings.fontColor;
+  let strokeColor = settings.fontStrokeColor;
+  if (settings.numAutoContrast) {
+    let luma = sampleLuminance(ctx, boxX, boxY, boxW, boxH);
+    if (luma !== null) {
+      if (numBadge !== 'none') luma = luma * (1 - settings.numBadgeOpacity) + hexLuminance(settings.numBadgeColor) * settings.numBadgeOpacity;
+      const light = luma < 140;
+      textColor = light ? LIGHT_TEXT : DARK_TEXT;
+      strokeColor = light ? DARK_TEXT : LIGHT_TEXT;
+    }
+  }
+
+  if (numBadge !== 'none') {
+    const radius = numBadge === 'square' ? settings.numBadgeRadius : boxH / 2;
+    ctx.globalAlpha = settings.numBadgeOpacity;
+    ctx.fillStyle = settings.numBadgeColor;
+    traceRoundRect(ctx, boxX, boxY, boxW, boxH, radius);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
+  const tx = boxX + (boxW - textW) / 2;
+  const ty = boxY + boxH / 2 + (ascent - descent) / 2;
+
+  if (settings.enableStroke) {
+    ctx.lineWidth = fontSize / 12;
+    ctx.strokeStyle = strokeColor;
+    ctx.lineJoin = 'round';
+    ctx.miterLimit = 2;
+    ctx.strokeText(label, tx, ty);
+  }
+
+  if (settings.enableShadow) {
+    ctx.shadowColor = settings.fontShadowColor;
+    ctx.shadowBlur = fontSize / 10;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+  } else {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+  }
+  ctx.fillStyle = textColor;
+  ctx.fillText(label, tx, ty);
+  ctx.restore();
 };
 
 export const drawAsync = async ({
   ctx,
   images,
-  rows,
-  cols,
-  w,
-  h,
-  gap,
-  globalOffset,
+  layout,
   startNum,
-  maskIndices,
+  sheetIndex = 0,
+  sheetCount = 1,
+  maskTargets,
   settings,
   applyMask,
   isCancelled,
-  onProgress
+  onProgress,
+  opaque = false,
+  assets
 }: DrawOptions) => {
   const canvas = ctx.canvas;
-  canvas.width = cols * w + (cols - 1) * gap;
-  canvas.height = rows * h + (rows - 1) * gap;
-  ctx.fillStyle = '#FFFFFF';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  // Pre-load sticker if needed
-  let stickerImgEl: HTMLImageElement | null = null;
-  if (settings.maskMode === 'image' && settings.stickerImgUrl) {
-    stickerImgEl = new Image();
-    stickerImgEl.src = settings.stickerImgUrl;
-    try { await stickerImgEl.decode(); } catch(e) { /* ignore */ }
+  // Header / footer bands add height; the cells move down below the header
+  const bands = sheetBandHeights(settings);
+  const cells = bands.top ? layout.cells.map(c => ({ ...c, y: c.y + bands.top })) : layout.cells;
+  const height = layout.height + bands.top + bands.bottom;
+  if (height > MAX_CANVAS_HEIGHT) throw new Error(`拼图高度 ${height}px 超出画布上限 ${MAX_CANVAS_HEIGHT}px，请减少每组行数或页眉页脚高度`);
+  canvas.width = layout.width;
+  canvas.height = height;
+  drawBackground(ctx, canvas.width, canvas.height, settings);
+  drawSheetBands(ctx, canvas.width, canvas.height, settings, sheetIndex + 1, sheetCount);
+
+  const loadAsset = (url: string) => loadImage(assets?.[url] ?? url).catch(() => null);
+
+  // Rules that can mark this sheet, in order, with their stickers pre-loaded
+  const maskRules = applyMask ? settings.maskRules.filter(rule => maskTargets[rule.id]?.length) : [];
+  const stickers = new Map<string, LoadedImage | null>();
+  for (const rule of maskRules) {
+    if (rule.mode === 'image' && rule.stickerImgUrl) stickers.set(rule.id, await loadAsset(rule.stickerImgUrl));
   }
 
   // Pre-load overlay if needed
-  let overlayImgEl: HTMLImageElement | null = null;
+  let overlayImgEl: LoadedImage | null = null;
   if (settings.overlayImgUrl) {
-    overlayImgEl = new Image();
-    overlayImgEl.src = settings.overlayImgUrl;
-    try { await overlayImgEl.decode(); } catch(e) { /* ignore */ }
+    overlayImgEl = await loadAsset(settings.overlayImgUrl);
   }
 
-  const tasks = images.map((imgUrl, i) => async () => {
+  // Row-column labels come from where the layout put each cell
+  const positions: GridPosition[] = [];
+  layout.cells.forEach((c, i) => {
+    if (c.row !== undefined && c.col !== undefined) positions[layout.start + i] = { row: c.row, col: c.col };
+  });
+  const numberFormat = numberFormatOf(settings, positions);
+  const captionRegex = compileCaptionRegex(settings.captionRegex);
+  let completed = 0;
+  const tasks = images.map((item, i) => async () => {
     if (isCancelled()) return;
 
-    const r = Math.floor(i / cols);
-    const c = i % cols;
-    const x = c * (w + gap);
-    const y = r * (h + gap);
-    const currentNum = startNum + globalOffset + i;
+    const { x, y, w, h } = cells[i];
+    const currentNum = startNum + layout.start + i;
 
     // Load Image Concurrently
-    const img = new Image();
-    img.src = imgUrl;
-    let isBroken = false;
+    let img: LoadedImage | null = null;
     
     try {
-        await img.decode();
+        if (item.src) img = await loadImage(item.src);
     } catch (e) {
-        isBroken = true;
         // console.warn('Image decode failed', e);
     }
 
@@ -108,93 +415,64 @@ export const drawAsync = async ({
     // relative to other drawing operations on the same context (mostly).
     
     try {
-      if (isBroken || img.naturalWidth === 0) {
+      if (!img || img.width === 0) {
         ctx.fillStyle = '#f9f9f9';
-        ctx.fillRect(x, y, w, h);
+        traceRoundRect(ctx, x, y, w, h, settings.cellRadius);
+        ctx.fill();
         ctx.fillStyle = '#ff3b30';
         ctx.font = `bold ${w / 10}px sans-serif`;
         ctx.textAlign = 'center';
         ctx.fillText('❌Error', x + w / 2, y + h / 2);
       } else {
         ctx.save();
-        ctx.beginPath();
-        ctx.rect(x, y, w, h);
+        traceRoundRect(ctx, x, y, w, h, settings.cellRadius);
         ctx.clip();
-        const iRatio = img.width / img.height;
-        const cRatio = w / h;
-        if (iRatio > cRatio) {
-          ctx.drawImage(img, x - (h * iRatio - w) / 2, y, h * iRatio, h);
+        const oriented = orientedSize(img.width, img.height, item.transform);
+        if ((item.fit ?? settings.fitMode) === 'contain') {
+          drawLetterbox(ctx, img, x, y, w, h, settings, item.transform);
+          const { dx, dy, dw, dh } = containRect(oriented.w, oriented.h, w, h);
+          drawOriented(ctx, img, x + dx, y + dy, dw, dh, item.transform);
         } else {
-          ctx.drawImage(img, x, y - (w / iRatio - h) / 2, w, w / iRatio);
+          const { dx, dy, dw, dh } = coverRect(oriented.w, oriented.h, w, h, item.crop);
+          drawOriented(ctx, img, x + dx, y + dy, dw, dh, item.transform);
         }
         ctx.restore();
       }
     } catch (err) {
       console.warn(`Draw error index:${i}`, err);
     } finally {
-      img.src = '';
-      // img.remove(); // Not strictly necessary for unmounted elements but good practice
+      if (img) releaseImage(img);
     }
 
-    // Numbering
-    if (settings.showNum) {
-      ctx.save();
-      ctx.font = `${settings.fontWeight || 'bold'} ${settings.fontSize}px ${settings.fontFamily}`;
-      let tx = x + w / 2, ty = y + h - settings.fontSize / 2;
-      
-      const { fontPos, fontSize } = settings;
-      if (fontPos === 'center') ty = y + h / 2 + fontSize / 3;
-      else if (fontPos.includes('top')) ty = y + fontSize + 20;
-
-      if (fontPos.includes('left')) { tx = x + 20; ctx.textAlign = 'left'; }
-      else if (fontPos.includes('right')) { tx = x + w - 20; ctx.textAlign = 'right'; }
-      else ctx.textAlign = 'center';
-
-      if (settings.enableStroke) {
-        ctx.lineWidth = fontSize / 12;
-        ctx.strokeStyle = settings.fontStrokeColor;
-        ctx.lineJoin = 'round';
-        ctx.miterLimit = 2;
-        ctx.strokeText(String(currentNum), tx, ty);
-      }
+    // Blur / mosaic / fill rules hide the image but stay under the caption and number.
+    // Both are clipped to the (possibly rounded) cell.
+    ctx.save();
+    traceRoundRect(ctx, x, y, w, h, settings.cellRadius);
+    ctx.clip();
+    maskRules.forEach(rule => {
+      if (coversImage(rule.mode) && maskTargets[rule.id].includes(currentNum)) drawMaskRule(ctx, rule, null, x, y, w, h);
+    });
 
-      if (settings.enableShadow) {
-        ctx.shadowColor = settings.fontShadowColor;
-        ctx.shadowBlur = fontSize / 10;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
-      } else {
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-      }
-      ctx.fillStyle = settings.fontColor;
-      ctx.fillText(String(currentNum), tx, ty);
-      ctx.restore();
+    // Caption (before the number, so a number in the same corner stays on top)
+    if (settings.showCaption) {
+      drawCaption(ctx, resolveCaption(item, settings, captionRegex), x, y, w, h, settings);
     }
+    ctx.restore();
 
-    // Masking
-    if (applyMask && maskIndices.includes(currentNum)) {
-      if (settings.maskMode === 'line') {
-        ctx.beginPath();
-        ctx.strokeStyle = settings.maskColor;
-        ctx.lineWidth = settings.maskWidth * (w / 500) * 5;
-        ctx.lineCap = 'round';
-        if (settings.lineStyle === 'cross') {
-          ctx.moveTo(x + w * 0.2, y + h * 0.2); ctx.lineTo(x + w * 0.8, y + h * 0.8);
-          ctx.moveTo(x + w * 0.8, y + h * 0.2); ctx.lineTo(x + w * 0.2, y + h * 0.8);
-        } else {
-          ctx.moveTo(x + w * 0.2, y + h * 0.8); ctx.lineTo(x + w * 0.8, y + h * 0.2);
-        }
-        ctx.stroke();
-      } else if (settings.maskMode === 'image' && stickerImgEl) {
-        const sizePct = settings.stickerSize / 100;
-        const xPct = settings.stickerX / 100;
-        const yPct = settings.stickerY / 100;
-        const sw = w * sizePct;
-        const sh = sw * (stickerImgEl.height / stickerImgEl.width);
-        ctx.drawImage(stickerImgEl, x + (w * xPct) - sw / 2, y + (h * yPct) - sh / 2, sw, sh);
-      }
+    drawCellBorder(ctx, x, y, w, h, settings);
+
+    // Numbering
+    if (settings.showNum) {
+      drawNumberLabel(ctx, formatNumber(currentNum, numberFormat), x, y, w, h, settings);
     }
+
+    // Marking rules, later rules on top
+    maskRules.forEach(rule => {
+      if (!coversImage(rule.mode) && maskTargets[rule.id].includes(currentNum)) drawMaskRule(ctx, rule, stickers.get(rule.id) ?? null, x, y, w, h);
+    });
+
+    completed++;
+    if (onProgress) onProgress(completed);
   });
 
   // Execute with Concurrency Limit
@@ -206,24 +484,31 @@ export const drawAsync = async ({
       if (executing.size >= CONCURRENCY_LIMIT) {
           await Promise.race(executing);
       }
-      if (onProgress) onProgress(images.indexOf(task as any)); // Approximation
   }
   await Promise.all(executing);
 
   // Global Overlay
-  if (overlayImgEl) {
+  if (overlayImgEl) drawOverlay(ctx, overlayImgEl, canvas.width, canvas.height, cells, settings);
+
+  if (settings.showWatermark) drawWatermark(ctx, canvas.width, canvas.height, settings, sheetIndex + 1);
+
+  if (opaque) {
     ctx.save();
-    ctx.globalAlpha = settings.overlayOpacity;
-    ctx.globalCompositeOperation = settings.overlayMode;
-    ctx.drawImage(overlayImgEl, 0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
     ctx.restore();
   }
+  stickers.forEach(sticker => { if (sticker) releaseImage(sticker); });
+  if (overlayImgEl) releaseImage(overlayImgEl);
 };
 
-export const calculateCellDimensions = (cols: number, ratio: number, gap: number): { cellW: number, cellH: number } => {
+// Sheet width = cols cells + gaps + padding on both sides, which must stay within MAX_CANVAS_DIMENSION
+export const calculateCellDimensions = (cols: number, ratio: number, gap: number, padding = 0): { cellW: number, cellH: number } => {
     let cellW = 1500;
-    if (cols * cellW > MAX_CANVAS_DIMENSION) {
-        cellW = Math.floor((MAX_CANVAS_DIMENSION - (cols * gap)) / cols);
+    const extra = (cols - 1) * gap + padding * 2;
+    if (cols * cellW + extra > MAX_CANVAS_DIMENSION) {
+        cellW = Math.floor((MAX_CANVAS_DIMENSION - extra) / cols);
     }
     const cellH = Math.floor(cellW / ratio);
     return { cellW, cellH };
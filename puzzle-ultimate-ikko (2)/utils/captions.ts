@@ -0,0 +1,98 @@
+import { AppSettings, CaptionSource } from '../types';
+import type { Canvas2D } from './canvasUtils';
+
+export const CAPTION_SOURCES: { source: CaptionSource; label: string }[] = [
+  { source: 'filename', label: '文件名' },
+  { source: 'regex', label: '文件名正则' },
+  { source: 'custom', label: '自定义文字' },
+];
+
+const stripExtension = (name: string) => name.replace(/\.[^./\\]+$/, '');
+
+// Compiled once per sheet; an invalid pattern yields null (falls back to the bare filename)
+export const compileCaptionRegex = (pattern: string): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch (e) {
+    return null;
+  }
+};
+
+// The text shown under one image. Regex: first capture group, or the whole match without groups.
+export const resolveCaption = (
+  item: { name?: string; caption?: string },
+  settings: AppSettings,
+  regex: RegExp | null = compileCaptionRegex(settings.captionRegex)
+): string => {
+  if (settings.captionSource === 'custom') return (item.caption || '').trim();
+  const base = stripExtension(item.name || '');
+  if (settings.captionSource === 'regex' && regex) {
+    const m = base.match(regex);
+    return m ? (m[1] ?? m[0]).trim() : '';
+  }
+  return base;
+};
+
+// Latin words stay whole, CJK breaks between any two characters
+const tokenize = (text: string): string[] => text.match(/[\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]|[^\s\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]+|\s+/g) || [];
+
+// Marks a line as cut short, dropping characters until the ellipsis fits
+const withEllipsis = (ctx: Canvas2D, line: string, maxWidth: number): string => {
+  let cut = line;
+  while (cut && ctx.measureText(cut + '…').width > maxWidth) cut = cut.slice(0, -1);
+  return cut.trimEnd() + '…';
+};
+
+// Greedy line breaking with the current ctx font. Text beyond `maxLines` is cut with an ellipsis.
+export const wrapCaption = (ctx: Canvas2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  const push = () => { lines.push(line.trim()); line = ''; };
+
+  for (const token of tokenize(text)) {
+    if (ctx.measureText(line + token).width <= maxWidth) { line += token; continue; }
+    if (/^\s+$/.test(token)) { push(); continue; }
+    if (line.trim()) push();
+    // A single word wider than the cell is broken by character
+    for (const ch of token) {
+      if (line && ctx.measureText(line + ch).width > maxWidth) push();
+      line += ch;
+    }
+  }
+  if (line.trim()) push();
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = withEllipsis(ctx, kept[maxLines - 1], maxWidth);
+  return kept;
+};
+
+// Caption band across the top or bottom of a cell
+export const drawCaption = (ctx: Canvas2D, text: string, x: number, y: number, w: number, h: number, settings: AppSettings) => {
+  if (!text) return;
+  const fontSize = settings.captionFontSize;
+  const pad = fontSize * 0.4;
+  const lineHeight = fontSize * 1.25;
+
+  ctx.save();
+  ctx.font = `${settings.captionFontWeight} ${fontSize}px ${settings.captionFontFamily}`;
+  const maxLines = settings.captionOverflow === 'truncate' ? 1 : Math.max(1, settings.captionMaxLines);
+  const lines = wrapCaption(ctx, text, w - pad * 2, maxLines);
+  const bandH = Math.min(h, lines.length * lineHeight + pad * 2);
+  const bandY = settings.captionPos === 'top' ? y : y + h - bandH;
+
+  if (settings.captionBand) {
+    ctx.globalAlpha = settings.captionBandOpacity;
+    ctx.fillStyle = settings.captionBandColor;
+    ctx.fillRect(x, bandY, w, bandH);
+    ctx.globalAlpha = 1;
+  }
+
+  ctx.fillStyle = settings.captionColor;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = settings.captionAlign;
+  const tx = settings.captionAlign === 'left' ? x + pad : settings.captionAlign === 'right' ? x + w - pad : x + w / 2;
+  lines.forEach((line, i) => ctx.fillText(line, tx, bandY + pad + lineHeight * (i + 0.5)));
+  ctx.restore();
+};
@@ -0,0 +1,86 @@
+// Minimal EXIF reader: just enough of JPEG/TIFF to find when a photo was taken
+
+const SCAN_BYTES = 256 * 1024; // EXIF lives in APP1, right after SOI
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// "YYYY:MM:DD HH:MM:SS" in the camera's local time (EXIF has no zone here)
+const parseExifDate = (text: string): number | null => {
+  const m = text.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return null;
+  const [y, mo, d, h, mi, s] = m.slice(1).map(Number);
+  if (!y || !mo || !d) return null; // Unset clocks write 0000:00:00
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const readTiffDate = (view: DataView, tiff: number): number | null => {
+  const little = view.getUint16(tiff) === 0x4949; // "II" = Intel byte order
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  if (u16(tiff + 2) !== 42) return null;
+
+  // Tag -> offset of its 12-byte directory entry
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, number>();
+    if (offset + 2 > view.byteLength) return entries;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > view.byteLength) break;
+      entries.set(u16(entry), entry);
+    }
+    return entries;
+  };
+
+  const readAscii = (entry: number | undefined): string | null => {
+    if (entry === undefined) return null;
+    const count = u32(entry + 4);
+    const start = count > 4 ? tiff + u32(entry + 8) : entry + 8;
+    if (start + count > view.byteLength) return null;
+    let text = '';
+    for (let i = 0; i < count; i++) {
+      const c = view.getUint8(start + i);
+      if (c === 0) break;
+      text += String.fromCharCode(c);
+    }
+    return text;
+  };
+
+  const ifd0 = readIfd(tiff + u32(tiff + 4));
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer !== undefined) {
+    const exif = readIfd(tiff + u32(exifPointer + 8));
+    const original = readAscii(exif.get(TAG_DATETIME_ORIGINAL));
+    const parsed = original && parseExifDate(original);
+    if (parsed) return parsed;
+  }
+  // Edited files sometimes only keep the modification time in IFD0
+  const fallback = readAscii(ifd0.get(TAG_DATETIME));
+  return fallback ? parseExifDate(fallback) : null;
+};
+
+// Capture time in ms, or null for non-JPEGs and photos without a usable date
+export const readCaptureTime = async (blob: Blob): Promise<number | null> => {
+  try {
+    const view = new DataView(await blob.slice(0, SCAN_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xFF) return null;
+      const marker = view.getUint8(offset + 1);
+      if (marker === 0xDA || marker === 0xD9) return null; // Image data starts; no EXIF before it
+      const size = view.getUint16(offset + 2);
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return readTiffDate(view, offset + 10);
+      }
+      offset += 2 + size;
+    }
+    return null;
+  } catch (e) {
+    return null; // Truncated or malformed EXIF
+  }
+};
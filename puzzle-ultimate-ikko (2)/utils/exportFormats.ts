@@ -0,0 +1,101 @@
+import { AppSettings, ExportFormat } from '../types';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  mime: string;
+  ext: string;
+  lossy: boolean; // Takes a quality, so can be searched for a target size
+  alpha: boolean; // Keeps transparent backgrounds
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'jpeg', label: 'JPEG', mime: 'image/jpeg', ext: 'jpg', lossy: true, alpha: false },
+  { format: 'png', label: 'PNG', mime: 'image/png', ext: 'png', lossy: false, alpha: true },
+  { format: 'webp', label: 'WebP', mime: 'image/webp', ext: 'webp', lossy: true, alpha: true },
+  { format: 'avif', label: 'AVIF', mime: 'image/avif', ext: 'avif', lossy: true, alpha: true },
+];
+
+export const exportFormatInfo = (format: ExportFormat): ExportFormatInfo =>
+  EXPORT_FORMATS.find(f => f.format === format) || EXPORT_FORMATS[0];
+
+// File extension for an encoded blob, from what the browser actually produced
+export const extensionOf = (blob: Blob): string =>
+  EXPORT_FORMATS.find(f => f.mime === blob.type)?.ext || 'jpg';
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+// Before explicit formats, quality 100 meant PNG
+export const migrateExportSettings = <T extends Partial<AppSettings>>(stored: T): T =>
+  stored.exportFormat === undefined && stored.exportQuality !== undefined
+    ? { ...stored, exportFormat: stored.exportQuality >= 100 ? 'png' : 'jpeg' }
+    : stored;
+
+type EncodableCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Browsers that can't encode a type silently return PNG, so the blob's type tells whether it worked
+const encode = (canvas: EncodableCanvas, mime: string, quality?: number): Promise<Blob | null> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type: mime, quality })
+    : new Promise(resolve => canvas.toBlob(resolve, mime, quality));
+
+const support = new Map<string, Promise<boolean>>();
+
+export const canEncode = (mime: string): Promise<boolean> => {
+  if (!support.has(mime)) {
+    const probe = document.createElement('canvas');
+    probe.width = 1; probe.height = 1;
+    support.set(mime, encode(probe, mime).then(blob => blob?.type === mime).catch(() => false));
+  }
+  return support.get(mime)!;
+};
+
+// The chosen format, or the closest one this browser can encode: AVIF -> WebP -> JPEG
+export const resolveExportFormat = async (format: ExportFormat): Promise<ExportFormatInfo> => {
+  const chain: ExportFormat[] = format === 'avif' ? ['avif', 'webp', 'jpeg'] : format === 'webp' ? ['webp', 'jpeg'] : [format];
+  for (const candidate of chain) {
+    const info = exportFormatInfo(candidate);
+    if (info.mime === 'image/jpeg' || info.mime === 'image/png' || await canEncode(info.mime)) return info;
+  }
+  return exportFormatInfo('jpeg');
+};
+
+export interface EncodeOptions {
+  mimeType: string;
+  quality?: number;  // 0-1, lossy formats only
+  maxBytes?: number; // Lower the quality until the sheet fits, for lossy formats
+  fallbackMime?: string; // Used when this context can't produce mimeType (workers may lag behind the page)
+}
+
+const MIN_QUALITY = 0.1;
+const SEARCH_STEPS = 7; // Quality to within ~0.01
+
+// Encodes once, or with maxBytes binary-searches the highest quality that fits. If even the lowest
+// quality is too big, the smallest result is returned rather than nothing.
+export const encodeCanvas = async (canvas: EncodableCanvas, { mimeType, quality, maxBytes, fallbackMime }: EncodeOptions): Promise<Blob | null> => {
+  let blob = await encode(canvas, mimeType, quality);
+  if (blob && blob.type !== mimeType && fallbackMime) {
+    mimeType = fallbackMime;
+    blob = await encode(canvas, mimeType, quality);
+  }
+  if (!blob || !maxBytes || blob.size <= maxBytes || mimeType === 'image/png') return blob;
+
+  let lo = MIN_QUALITY, hi = quality ?? 0.92;
+  let best: Blob | null = null;
+  let smallest = blob;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const q = step === 0 ? lo : (lo + hi) / 2;
+    const attempt = await encode(canvas, mimeType, q);
+    if (!attempt) break;
+    if (attempt.size < smallest.size) smallest = attempt;
+    if (attempt.size <= maxBytes) {
+      best = attempt;
+      lo = q;
+    } else {
+      if (step === 0) break; // Even the lowest quality is over the limit
+      hi = q;
+    }
+  }
+  return best || smallest;
+};
@@ -0,0 +1,126 @@
+import { AppSettings, GifSource } from '../types';
+import { Canvas2D, DrawItem, drawAsync } from './canvasUtils';
+import type { CellRect } from './layout';
+import type { GifWriterOptions } from './gifEncoder';
+
+export const GIF_SOURCES: { source: GifSource; label: string }[] = [
+  { source: 'images', label: '逐张图片' },
+  { source: 'sheets', label: '生成的分组' },
+];
+
+const MAX_QUEUED_FRAMES = 2; // Frames posted but not yet encoded; bounds memory on long sequences
+
+export type GifRequest =
+  | { type: 'start'; options: GifWriterOptions }
+  | { type: 'frame'; pixels: ArrayBuffer; delay: number }
+  | { type: 'finish' };
+
+export type GifResponse =
+  | { type: 'progress'; frames: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+export interface GifProgress {
+  rendered: number; // Frames drawn and handed to the worker
+  encoded: number;
+}
+
+// Pixel sizes in the settings are meant for full-size export cells; shrink them with the frame
+const scaleCellSettings = (settings: AppSettings, k: number): AppSettings => ({
+  ...settings,
+  fontSize: settings.fontSize * k,
+  numMarginX: settings.numMarginX * k,
+  numMarginY: settings.numMarginY * k,
+  numBadgePadding: settings.numBadgePadding * k,
+  numBadgeRadius: settings.numBadgeRadius * k,
+  captionFontSize: settings.captionFontSize * k,
+  cellRadius: 0,
+  cellBorderWidth: settings.cellBorderWidth * k,
+  padding: 0,
+  showBand: false
+});
+
+// One image filling the frame, painted by drawAsync so the number label, caption and marks
+// look exactly as on the sheets. `cell` is the image's cell on the sheets: its width sets the
+// scale, its grid position the row-column label.
+export const drawImageFrame = (
+  ctx: Canvas2D, item: DrawItem, index: number, cell: CellRect, width: number, height: number,
+  settings: AppSettings, maskTargets: Record<string, number[]>
+) => drawAsync({
+  ctx,
+  images: [item],
+  layout: { start: index, width, height, cells: [{ x: 0, y: 0, w: width, h: height, row: cell.row, col: cell.col }] },
+  startNum: settings.startNumber,
+  maskTargets,
+  settings: scaleCellSettings(settings, width / cell.w),
+  applyMask: Object.keys(maskTargets).length > 0,
+  opaque: true, // GIF frames here carry no transparency
+  isCancelled: () => false
+});
+
+// A generated sheet shrunk to fit the frame, centred on white
+export const drawSheetFrame = async (ctx: Canvas2D, sheet: Blob, width: number, height: number) => {
+  const bitmap = await createImageBitmap(sheet);
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  const k = Math.min(width / bitmap.width, height / bitmap.height);
+  const w = bitmap.width * k, h = bitmap.height * k;
+  ctx.drawImage(bitmap, (width - w) / 2, (height - h) / 2, w, h);
+  bitmap.close();
+};
+
+// Draws frames on the page one by one and streams their pixels to the encoder worker, which
+// stays at most MAX_QUEUED_FRAMES behind. Resolves null when cancelled.
+export const encodeGif = (
+  frameCount: number,
+  renderFrame: (index: number) => Promise<ImageData>,
+  options: GifWriterOptions & { delay: number },
+  { isCancelled, onProgress }: { isCancelled: () => boolean; onProgress?: (p: GifProgress) => void }
+): Promise<Blob | null> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('./gif.worker.ts', import.meta.url), { type: 'module' });
+  const progress: GifProgress = { rendered: 0, encoded: 0 };
+  let settled = false;
+  let wake: (() => void) | null = null;
+
+  const settle = (fn: () => void) => {
+    if (settled) return;
+    settled = true;
+    clearInterval(watcher);
+    worker.terminate();
+    wake?.();
+    fn();
+  };
+  // Poll the cancel flag so a long encode stops right away, not after the current frame
+  const watcher = setInterval(() => { if (isCancelled()) settle(() => resolve(null)); }, 100);
+  const post = (msg: GifRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  worker.onmessage = (e: MessageEvent<GifResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'progress') {
+      progress.encoded = msg.frames;
+      onProgress?.({ ...progress });
+      wake?.();
+      wake = null;
+    } else if (msg.type === 'done') settle(() => resolve(msg.blob));
+    else settle(() => reject(new Error(msg.message)));
+  };
+  worker.onerror = (e) => settle(() => reject(new Error(e.message || 'GIF worker crashed')));
+
+  const feed = async () => {
+    const { delay, ...writer } = options;
+    post({ type: 'start', options: writer });
+    for (let i = 0; i < frameCount; i++) {
+      while (!settled && i - progress.encoded >= MAX_QUEUED_FRAMES) await new Promise<void>(r => { wake = r; });
+      if (settled) return;
+      const frame = await renderFrame(i);
+      if (settled) return;
+      post({ type: 'frame', pixels: frame.data.buffer as ArrayBuffer, delay }, [frame.data.buffer as ArrayBuffer]);
+      progress.rendered = i + 1;
+      onProgress?.({ ...progress });
+    }
+    post({ type: 'finish' });
+  };
+  feed().catch(err => settle(() => reject(err)));
+});
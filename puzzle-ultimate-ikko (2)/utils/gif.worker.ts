@@ -0,0 +1,31 @@
+import { createGifWriter } from './gifEncoder';
+import type { GifRequest, GifResponse } from './gif';
+
+// The project compiles against the DOM lib only, so type the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<GifRequest>) => void) | null;
+  postMessage: (msg: GifResponse) => void;
+};
+
+let writer: ReturnType<typeof createGifWriter> | null = null;
+let frames = 0;
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  try {
+    if (msg.type === 'start') {
+      writer = createGifWriter(msg.options);
+      frames = 0;
+    } else if (msg.type === 'frame') {
+      if (!writer) throw new Error('GIF encoder not started');
+      writer.addFrame(new Uint8ClampedArray(msg.pixels), msg.delay);
+      scope.postMessage({ type: 'progress', frames: ++frames });
+    } else {
+      if (!writer) throw new Error('GIF encoder not started');
+      scope.postMessage({ type: 'done', blob: new Blob([writer.finish()], { type: 'image/gif' }) });
+      writer = null;
+    }
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,252 @@
+// Minimal GIF89a encoder: median-cut palette per frame, optional Floyd-Steinberg dithering and
+// LZW compression. Runs inside utils/gif.worker.ts; nothing here touches the DOM.
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8; // log2(PALETTE_SIZE)
+const MAX_CODE = 4096;   // LZW codes are at most 12 bits
+
+// Colours are bucketed at 5 bits per channel for the histogram and the nearest-colour cache
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// Growable byte buffer
+const createByteWriter = () => {
+  let buf = new Uint8Array(1 << 16);
+  let length = 0;
+  const reserve = (n: number) => {
+    if (length + n <= buf.length) return;
+    const next = new Uint8Array(Math.max(buf.length * 2, length + n));
+    next.set(buf.subarray(0, length));
+    buf = next;
+  };
+  return {
+    byte: (b: number) => { reserve(1); buf[length++] = b; },
+    word: (w: number) => { reserve(2); buf[length++] = w & 0xFF; buf[length++] = (w >> 8) & 0xFF; },
+    bytes: (data: ArrayLike<number>) => { reserve(data.length); buf.set(data, length); length += data.length; },
+    ascii: (text: string) => { reserve(text.length); for (let i = 0; i < text.length; i++) buf[length++] = text.charCodeAt(i); },
+    result: () => buf.slice(0, length)
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+interface ColorBox {
+  buckets: number[];
+  count: number;   // Pixels in the box
+  channel: number; // Widest channel (0 r, 1 g, 2 b) and its spread in buckets
+  range: number;
+}
+
+// Median cut over the bucket histogram: keep splitting the most populous wide box along its widest
+// channel until there are PALETTE_SIZE boxes. Each box becomes its pixels' average colour.
+const buildPalette = (rgba: Uint8ClampedArray): Uint8Array => {
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const k = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    counts[k]++;
+    sums[k * 3] += rgba[i];
+    sums[k * 3 + 1] += rgba[i + 1];
+    sums[k * 3 + 2] += rgba[i + 2];
+  }
+  const used: number[] = [];
+  let total = 0;
+  counts.forEach((c, k) => { if (c) { used.push(k); total += c; } });
+
+  const channel = (k: number, c: number) => (k >> (10 - c * 5)) & 31;
+  const makeBox = (buckets: number[], count: number): ColorBox => {
+    let best = 0, range = -1;
+    for (let c = 0; c < 3; c++) {
+      let lo = 31, hi = 0;
+      buckets.forEach(k => { const v = channel(k, c); if (v < lo) lo = v; if (v > hi) hi = v; });
+      if (hi - lo > range) { range = hi - lo; best = c; }
+    }
+    return { buckets, count, channel: best, range };
+  };
+
+  const boxes: ColorBox[] = used.length ? [makeBox(used, total)] : [];
+  while (boxes.length < PALETTE_SIZE) {
+    let pick = -1, score = 0;
+    boxes.forEach((box, i) => {
+      if (box.buckets.length < 2) return;
+      const s = box.count * (box.range + 1);
+      if (s > score) { score = s; pick = i; }
+    });
+    if (pick < 0) break;
+    const box = boxes[pick];
+    const c = box.channel;
+    box.buckets.sort((a, b) => channel(a, c) - channel(b, c));
+    // Split where half the pixels are on each side, leaving at least one bucket per half
+    let acc = 0, at = 1;
+    for (; at < box.buckets.length - 1; at++) {
+      acc += counts[box.buckets[at - 1]];
+      if (acc >= box.count / 2) break;
+    }
+    const left = box.buckets.slice(0, at), right = box.buckets.slice(at);
+    const leftCount = left.reduce((s, k) => s + counts[k], 0);
+    boxes.splice(pick, 1, makeBox(left, leftCount), makeBox(right, box.count - leftCount));
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, i) => {
+    let r = 0, g = 0, b = 0;
+    box.buckets.forEach(k => { r += sums[k * 3]; g += sums[k * 3 + 1]; b += sums[k * 3 + 2]; });
+    palette[i * 3] = Math.round(r / box.count);
+    palette[i * 3 + 1] = Math.round(g / box.count);
+    palette[i * 3 + 2] = Math.round(b / box.count);
+  });
+  return palette;
+};
+
+// Nearest palette entry per colour bucket, computed on first use
+const createColorMap = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const k = bucketOf(r, g, b);
+    if (cache[k] >= 0) return cache[k];
+    let best = 0, bestDist = Infinity;
+    for (let i = 0; i < PALETTE_SIZE; i++) {
+      const dr = palette[i * 3] - r, dg = palette[i * 3 + 1] - g, db = palette[i * 3 + 2] - b;
+      const d = dr * dr + dg * dg + db * db;
+      if (d < bestDist) { bestDist = d; best = i; }
+    }
+    return (cache[k] = best);
+  };
+};
+
+// Palette index per pixel. Dithering spreads each pixel's error over its unvisited neighbours.
+const indexPixels = (rgba: Uint8ClampedArray, width: number, height: number, palette: Uint8Array, dither: boolean): Uint8Array => {
+  const nearest = createColorMap(palette);
+  const out = new Uint8Array(width * height);
+  if (!dither) {
+    for (let p = 0; p < out.length; p++) out[p] = nearest(rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2]);
+    return out;
+  }
+  // Error for the current and next row, with a pixel of slack on both sides
+  let row = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, rgba[p * 4] + row[e]));
+      const g = Math.max(0, Math.min(255, rgba[p * 4 + 1] + row[e + 1]));
+      const b = Math.max(0, Math.min(255, rgba[p * 4 + 2] + row[e + 2]));
+      const idx = nearest(r, g, b);
+      out[p] = idx;
+      const err = [r - palette[idx * 3], g - palette[idx * 3 + 1], b - palette[idx * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        row[e + 3 + c] += err[c] * 7 / 16;
+        next[e - 3 + c] += err[c] * 3 / 16;
+        next[e + c] += err[c] * 5 / 16;
+        next[e + 3 + c] += err[c] / 16;
+      }
+    }
+    [row, next] = [next, row];
+    next.fill(0);
+  }
+  return out;
+};
+
+// Variable-width LZW codes packed LSB first into 255-byte sub-blocks
+const writeLzw = (out: ByteWriter, indices: Uint8Array) => {
+  const clear = 1 << MIN_CODE_SIZE, end = clear + 1;
+  const block = new Uint8Array(255);
+  let blockLen = 0, bits = 0, acc = 0;
+  let codeSize = MIN_CODE_SIZE + 1, nextCode = end + 1;
+  const dict = new Map<number, number>(); // (prefix code << 8 | index) -> code
+
+  const flushBlock = () => {
+    if (!blockLen) return;
+    out.byte(blockLen);
+    out.bytes(block.subarray(0, blockLen));
+    blockLen = 0;
+  };
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      block[blockLen++] = acc & 0xFF;
+      if (blockLen === 255) flushBlock();
+      acc >>= 8;
+      bits -= 8;
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dict.get(key);
+    if (code !== undefined) { prefix = code; continue; }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over rather than keep coding with a stale table
+      emit(clear);
+      dict.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = end + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dict.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(end);
+  if (bits > 0) {
+    block[blockLen++] = acc & 0xFF;
+    if (blockLen === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0);
+};
+
+export interface GifWriterOptions {
+  width: number;
+  height: number;
+  loop: number; // Times to play, 0 = forever
+  dither: boolean;
+}
+
+// Frames are added one at a time so a long sequence never has to be held in memory at once
+export const createGifWriter = ({ width, height, loop, dither }: GifWriterOptions) => {
+  const out = createByteWriter();
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0x70); // No global colour table, 8-bit colour resolution
+  out.byte(0);    // Background colour index
+  out.byte(0);    // Square pixels
+  // NETSCAPE2.0 counts repeats after the first play; leaving it out plays once
+  if (loop !== 1) {
+    out.bytes([0x21, 0xFF, 0x0B]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.word(loop > 1 ? loop - 1 : 0);
+    out.byte(0);
+  }
+
+  const addFrame = (rgba: Uint8ClampedArray, delayMs: number) => {
+    const palette = buildPalette(rgba);
+    const indices = indexPixels(rgba, width, height, palette, dither);
+    // Graphic control: leave the frame in place, delay in 1/100 s
+    out.bytes([0x21, 0xF9, 0x04, 0x04]);
+    out.word(Math.max(2, Math.round(delayMs / 10)));
+    out.bytes([0, 0]);
+    // Image descriptor with a 256-entry local colour table
+    out.byte(0x2C);
+    out.word(0); out.word(0);
+    out.word(width); out.word(height);
+    out.byte(0x80 | (MIN_CODE_SIZE - 1));
+    out.bytes(palette);
+    writeLzw(out, indices);
+  };
+
+  const finish = (): Uint8Array => {
+    out.byte(0x3B);
+    return out.result();
+  };
+
+  return { addFrame, finish };
+};
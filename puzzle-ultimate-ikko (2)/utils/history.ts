@@ -0,0 +1,80 @@
+import { AppSettings, ImageData } from '../types';
+
+const HISTORY_LIMIT = 50;
+const COALESCE_MS = 800; // Slider drags / typing within this window count as one step
+
+// Arrays and settings are replaced, never mutated, so snapshots share structure cheaply
+export interface Snapshot {
+  images: ImageData[];
+  settings: AppSettings;
+}
+
+interface HistoryEntry {
+  label: string;
+  at: number;
+  snapshot: Snapshot; // State before (past) or after (future) the step
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// Record `current` as an undo step. Returns snapshots that fell out of the history;
+// images only they reference can be deleted for good (see releasedImages).
+export const pushHistory = (
+  history: HistoryState,
+  current: Snapshot,
+  label: string,
+  coalesce = false,
+  now = Date.now()
+): { history: HistoryState; dropped: Snapshot[] } => {
+  const last = history.past[history.past.length - 1];
+  if (coalesce && last && last.label === label && now - last.at < COALESCE_MS && history.future.length === 0) {
+    return { history: { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] }, dropped: [] };
+  }
+
+  const past = [...history.past, { label, at: now, snapshot: current }];
+  const overflow = past.length > HISTORY_LIMIT ? past.splice(0, past.length - HISTORY_LIMIT) : [];
+  return {
+    history: { past, future: [] },
+    dropped: [...overflow, ...history.future].map(e => e.snapshot)
+  };
+};
+
+export const undoHistory = (history: HistoryState, current: Snapshot): { history: HistoryState; snapshot: Snapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [{ ...entry, snapshot: current }, ...history.future] },
+    snapshot: entry.snapshot
+  };
+};
+
+export const redoHistory = (history: HistoryState, current: Snapshot): { history: HistoryState; snapshot: Snapshot } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, { ...entry, snapshot: current }], future: history.future.slice(1) },
+    snapshot: entry.snapshot
+  };
+};
+
+// Ids of every image the current state or any undo / redo step still shows
+export const liveImageIds = (history: HistoryState, current: Snapshot): Set<string> => {
+  const alive = new Set(current.images.map(i => i.id));
+  [...history.past, ...history.future].forEach(e => e.snapshot.images.forEach(i => alive.add(i.id)));
+  return alive;
+};
+
+// Images that appear in `dropped` but in neither the remaining history nor the current state
+export const releasedImages = (dropped: Snapshot[], history: HistoryState, current: Snapshot): ImageData[] => {
+  if (dropped.length === 0) return [];
+  const alive = liveImageIds(history, current);
+
+  const released = new Map<string, ImageData>();
+  dropped.forEach(s => s.images.forEach(i => { if (!alive.has(i.id)) released.set(i.id, i); }));
+  return [...released.values()];
+};
@@ -0,0 +1,195 @@
+import { ImageMeta, LayoutMode } from '../types';
+import { orientedSize } from './canvasUtils';
+import { LayoutTemplate } from './templates';
+
+// Where one image lands on its sheet, in sheet pixels
+export interface CellRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  row?: number; // Grid position from the strategy, 0-based; rows count on across sheets
+  col?: number;
+}
+
+// One output sheet: images[start .. start + cells.length) drawn into `cells`
+export interface SheetLayout {
+  start: number;
+  width: number;
+  height: number;
+  cells: CellRect[];
+}
+
+export interface LayoutParams {
+  cols: number;
+  groupRows: number; // Rows per sheet; 0 = everything on one sheet
+  cellW: number;     // Base cell from calculateCellDimensions
+  cellH: number;
+  gap: number;
+  padding?: number; // Outer margin around every sheet
+  template?: LayoutTemplate; // Required by the 'template' strategy
+}
+
+// Which sheet, row and column an image ended up in, indexed like the images
+export interface CellPosition {
+  sheet: number;
+  row: number;
+  col: number;
+}
+
+// Each strategy splits the images into sheets and places every image. `ratios` are the
+// images' displayed aspect ratios (w / h); NaN where unknown.
+type LayoutStrategy = (ratios: number[], params: LayoutParams) => SheetLayout[];
+
+export const LAYOUT_MODES: { mode: LayoutMode; label: string }[] = [
+  { mode: 'grid', label: '统一网格' },
+  { mode: 'justified', label: '等高行 (按比例)' },
+  { mode: 'masonry', label: '瀑布流 (等宽列)' },
+  { mode: 'template', label: '模板 (大图跨格)' },
+];
+
+// Strategies that size cells from the images themselves, so images must be measured first
+export const usesImageRatios = (mode: LayoutMode) => mode === 'justified' || mode === 'masonry';
+
+// Displayed aspect ratio, NaN until the image has been measured
+export const imageRatio = (img: ImageMeta): number => {
+  if (!img.width || !img.height) return NaN;
+  const { w, h } = orientedSize(img.width, img.height, img.transform);
+  return w / h;
+};
+
+const sheetWidth = ({ cols, cellW, gap }: LayoutParams) => cols * cellW + (cols - 1) * gap;
+
+// Round edges rather than sizes so neighbouring cells never overlap or leave a seam
+const snap = (x: number, y: number, w: number, h: number, row: number, col: number): CellRect => {
+  const left = Math.round(x), top = Math.round(y);
+  return { x: left, y: top, w: Math.round(x + w) - left, h: Math.round(y + h) - top, row, col };
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+const gridLayout: LayoutStrategy = (ratios, p) => {
+  const rowsPerSheet = p.groupRows > 0 ? p.groupRows : Math.ceil(ratios.length / p.cols);
+  const batch = Math.max(1, p.cols * rowsPerSheet);
+  const sheets: SheetLayout[] = [];
+  for (let start = 0; start < ratios.length; start += batch) {
+    const count = Math.min(batch, ratios.length - start);
+    const rows = Math.ceil(count / p.cols);
+    const cells = Array.from({ length: count }, (_, i) => ({
+      x: (i % p.cols) * (p.cellW + p.gap),
+      y: Math.floor(i / p.cols) * (p.cellH + p.gap),
+      w: p.cellW,
+      h: p.cellH,
+      row: Math.floor((start + i) / p.cols),
+      col: i % p.cols
+    }));
+    sheets.push({ start, width: sheetWidth(p), height: rows * p.cellH + (rows - 1) * p.gap, cells });
+  }
+  return sheets;
+};
+
+// Rows share one height and fill the sheet width exactly; widths follow each image's ratio.
+// The base cell height is the target: rows only shrink below it, the last row is left as is.
+const justifiedLayout: LayoutStrategy = (ratios, p) => {
+  const width = sheetWidth(p);
+  const ratioAt = (i: number) => (ratios[i] > 0 ? ratios[i] : p.cellW / p.cellH);
+
+  const rows: { start: number; count: number; height: number }[] = [];
+  let start = 0, sum = 0;
+  for (let i = 0; i < ratios.length; i++) {
+    sum += ratioAt(i);
+    const count = i - start + 1;
+    if (sum * p.cellH + (count - 1) * p.gap >= width) {
+      rows.push({ start, count, height: (width - (count - 1) * p.gap) / sum });
+      start = i + 1;
+      sum = 0;
+    }
+  }
+  if (start < ratios.length) rows.push({ start, count: ratios.length - start, height: p.cellH });
+
+  const rowsPerSheet = p.groupRows > 0 ? p.groupRows : rows.length;
+  return chunk(rows.map((row, index) => ({ ...row, index })), Math.max(1, rowsPerSheet)).map(sheetRows => {
+    const cells: CellRect[] = [];
+    let y = 0;
+    sheetRows.forEach(row => {
+      let x = 0;
+      for (let i = row.start; i < row.start + row.count; i++) {
+        const w = ratioAt(i) * row.height;
+        cells.push(snap(x, y, w, row.height, row.index, i - row.start));
+        x += w + p.gap;
+      }
+      y += row.height + p.gap;
+    });
+    return { start: sheetRows[0].start, width, height: Math.round(y - p.gap), cells };
+  });
+};
+
+// Equal-width columns; each image keeps its ratio and drops into the shortest column.
+// An image's row is its place in that column.
+const masonryLayout: LayoutStrategy = (ratios, p) => {
+  const batch = p.groupRows > 0 ? p.cols * p.groupRows : ratios.length;
+  const sheets: SheetLayout[] = [];
+  let firstRow = 0;
+  for (let start = 0; start < ratios.length; start += Math.max(1, batch)) {
+    const count = Math.min(Math.max(1, batch), ratios.length - start);
+    const heights = new Array(Math.min(p.cols, count)).fill(0);
+    const depths = heights.map(() => 0);
+    const cells: CellRect[] = [];
+    for (let i = start; i < start + count; i++) {
+      const col = heights.indexOf(Math.min(...heights));
+      const h = p.cellW / (ratios[i] > 0 ? ratios[i] : p.cellW / p.cellH);
+      cells.push(snap(col * (p.cellW + p.gap), heights[col], p.cellW, h, firstRow + depths[col]++, col));
+      heights[col] += h + p.gap;
+    }
+    sheets.push({ start, width: sheetWidth(p), height: Math.round(Math.max(...heights) - p.gap), cells });
+    firstRow += Math.max(...depths);
+  }
+  return sheets;
+};
+
+// Every sheet repeats the template. Grid units are sized so the sheet keeps the grid's width
+// and each unit keeps the base cell's aspect ratio. A short last sheet is cut below its last cell.
+// A spanning cell's position is its top-left unit.
+const templateLayout: LayoutStrategy = (ratios, p) => {
+  const tpl = p.template;
+  if (!tpl || !tpl.cells.length) return gridLayout(ratios, p);
+  const width = sheetWidth(p);
+  const unitW = (width - (tpl.cols - 1) * p.gap) / tpl.cols;
+  const unitH = unitW * (p.cellH / p.cellW);
+
+  return chunk(ratios.map((_, i) => i), tpl.cells.length).map((indices, sheet) => {
+    const cells = indices.map((_, k) => {
+      const { x, y, w = 1, h = 1 } = tpl.cells[k];
+      return snap(x * (unitW + p.gap), y * (unitH + p.gap), w * unitW + (w - 1) * p.gap, h * unitH + (h - 1) * p.gap, sheet * tpl.rows + y, x);
+    });
+    return { start: indices[0], width, height: Math.max(...cells.map(c => c.y + c.h)), cells };
+  });
+};
+
+const LAYOUT_STRATEGIES: Record<LayoutMode, LayoutStrategy> = {
+  grid: gridLayout,
+  justified: justifiedLayout,
+  masonry: masonryLayout,
+  template: templateLayout,
+};
+
+// Strategies lay out from (0, 0); padding is added around the result
+const withPadding = (sheet: SheetLayout, padding: number): SheetLayout => ({
+  ...sheet,
+  width: sheet.width + padding * 2,
+  height: sheet.height + padding * 2,
+  cells: sheet.cells.map(c => ({ ...c, x: c.x + padding, y: c.y + padding }))
+});
+
+export const cellPositions = (sheets: SheetLayout[]): CellPosition[] =>
+  sheets.flatMap((sheet, s) => sheet.cells.map(c => ({ sheet: s, row: c.row ?? 0, col: c.col ?? 0 })));
+
+export const layoutSheets = (mode: LayoutMode, ratios: number[], params: LayoutParams): SheetLayout[] => {
+  const sheets = (LAYOUT_STRATEGIES[mode] || gridLayout)(ratios, params);
+  const padding = Math.max(0, Math.round(params.padding ?? 0));
+  return padding ? sheets.map(sheet => withPadding(sheet, padding)) : sheets;
+};
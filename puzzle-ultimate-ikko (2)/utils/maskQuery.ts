@@ -0,0 +1,182 @@
+import { AppSettings } from '../types';
+import { CellPosition, SheetLayout, cellPositions } from './layout';
+import { NumberFormat, formatNumber, numberFormatOf, parseNumberLabel } from './numbering';
+
+// The "目标序号" mini-language. Terms are separated by commas, 、 or spaces:
+//   7  A3  No.007      one cell, in any label the current numbering accepts
+//   1-20               a range (also ~ — –)
+//   odd  even          odd / even numbers
+//   every 3 from 2     every 3rd cell starting at 2 ("from" is optional)
+//   r2  c3  g1         a whole row / column / group (r1-3 for several); also 行2 列3 组1
+//   last 5             the final 5 cells
+//   all                every cell
+//   !7  !r2            exclude; with only exclusions, everything else is selected
+// Rows, columns and groups are the ones the layout actually produced; rows count on across sheets.
+// A term that is also the label of an existing cell means that cell: with row-column labels "c3"
+// is cell C3, and 列3 is the column.
+
+export interface MaskQueryContext {
+  format: NumberFormat;
+  total: number;             // Cells being numbered; terms resolve against startNum .. startNum + total - 1
+  positions: CellPosition[]; // Sheet (g), row (r) and column (c) of every cell
+}
+
+export interface MaskQueryError {
+  start: number; // Character offsets into the input, end exclusive
+  end: number;
+  message: string;
+}
+
+export interface MaskQueryResult {
+  indices: number[]; // Matched numbers, ascending, within range
+  errors: MaskQueryError[];
+}
+
+// `sheets` is the layout the images are (or will be) drawn with, as returned by layoutSheets
+export const maskQueryContextOf = (settings: AppSettings, sheets: SheetLayout[]): MaskQueryContext => {
+  const positions = cellPositions(sheets);
+  return { format: numberFormatOf(settings, positions), total: positions.length, positions };
+};
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const re = /[^,，、\s]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(input))) tokens.push({ text: m[0], start: m.index, end: m.index + m[0].length });
+  return tokens;
+};
+
+const RANGE_DASHES = '-~—–';
+const UNITS: Record<string, 'r' | 'c' | 'g'> = { r: 'r', c: 'c', g: 'g', 行: 'r', 列: 'c', 组: 'g' };
+const isCount = (text?: string) => !!text && /^\d+$/.test(text);
+
+export const parseMaskQuery = (input: string, ctx: MaskQueryContext): MaskQueryResult => {
+  const { format, total, positions } = ctx;
+  const first = format.startNum;
+  const last = first + total - 1;
+  const cols = positions.reduce((n, p) => Math.max(n, p.col + 1), 0);
+  const errors: MaskQueryError[] = [];
+  const included = new Set<number>();
+  const excluded = new Set<number>();
+  let hasInclude = false;
+  let hasExclude = false;
+
+  const fail = (from: Token, to: Token, message: string) => errors.push({ start: from.start, end: to.end, message });
+  const span = (s: number, e: number) => {
+    const out: number[] = [];
+    for (let n = Math.max(first, Math.min(s, e)); n <= Math.min(last, Math.max(s, e)); n++) out.push(n);
+    return out;
+  };
+  const label = (n: number) => formatNumber(n, format);
+  const outOfRange = total > 0 ? `超出范围 (${label(first)}–${label(last)})` : '';
+
+  const tokens = tokenize(input);
+  let negate = false;
+  let negateFrom: Token | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    let text = tok.text;
+    if (/^[!！]/.test(text)) {
+      negate = true;
+      negateFrom = tok;
+      text = text.slice(1);
+      // A lone "!" applies to the next term
+      if (!text) continue;
+    }
+    const begin = negateFrom || tok;
+    let matched: number[] | null = null;
+    const lower = text.toLowerCase();
+
+    const asLabel = parseNumberLabel(text, format);
+    if (asLabel !== null && asLabel >= first && asLabel <= last) {
+      matched = [asLabel];
+    } else if (lower === 'all' || text === '全部') {
+      matched = span(first, last);
+    } else if (lower === 'odd' || text === '奇数' || lower === 'even' || text === '偶数') {
+      const parity = lower === 'odd' || text === '奇数' ? 1 : 0;
+      matched = span(first, last).filter(n => Math.abs(n % 2) === parity);
+    } else if (lower === 'last') {
+      const next = tokens[i + 1];
+      if (!isCount(next?.text)) fail(begin, tok, 'last 后需要数量');
+      else {
+        i++;
+        matched = span(Math.max(first, last - parseInt(next.text, 10) + 1), last);
+      }
+    } else if (lower === 'every') {
+      const next = tokens[i + 1];
+      if (!isCount(next?.text)) fail(begin, tok, 'every 后需要间隔');
+      else if (parseInt(next.text, 10) < 1) { fail(begin, next, '间隔需大于 0'); i++; }
+      else {
+        i++;
+        const step = parseInt(next.text, 10);
+        let from = first;
+        if (tokens[i + 1]?.text.toLowerCase() === 'from') {
+          const fromTok = tokens[i + 1];
+          const value = tokens[i + 2] ? parseNumberLabel(tokens[i + 2].text, format) : null;
+          if (value === null) {
+            fail(fromTok, tokens[i + 2] || fromTok, 'from 后需要起始序号');
+            i += tokens[i + 2] ? 2 : 1;
+            negate = false;
+            negateFrom = null;
+            continue;
+          }
+          from = value;
+          i += 2;
+        }
+        matched = span(from, last).filter(n => (n - from) % step === 0);
+      }
+    } else {
+      const unit = lower.match(/^([rcg行列组])(\d+)(?:[-~—–](\d+))?$/);
+      if (unit) {
+        const kind = UNITS[unit[1]];
+        const a = parseInt(unit[2], 10);
+        const b = unit[3] ? parseInt(unit[3], 10) : a;
+        const lo = Math.min(a, b), hi = Math.max(a, b);
+        if (lo < 1) fail(begin, tok, '行/列/组从 1 开始');
+        else if (kind === 'c' && hi > cols) fail(begin, tok, `共 ${cols} 列`);
+        else {
+          matched = span(first, last).filter(n => {
+            const pos = positions[n - first];
+            const index = kind === 'r' ? pos.row : kind === 'c' ? pos.col : pos.sheet;
+            return index + 1 >= lo && index + 1 <= hi;
+          });
+        }
+      } else {
+        const single = parseNumberLabel(text, format);
+        if (single !== null) {
+          matched = span(single, single);
+        } else {
+          // Try every dash as the range separator, since labels like "A-3" contain one themselves
+          for (let k = 1; k < text.length - 1 && !matched; k++) {
+            if (!RANGE_DASHES.includes(text[k])) continue;
+            const s = parseNumberLabel(text.slice(0, k), format);
+            const e = parseNumberLabel(text.slice(k + 1), format);
+            if (s !== null && e !== null) matched = span(s, e);
+          }
+          if (!matched) fail(begin, tok, `无法识别 "${text}"`);
+        }
+        if (matched && !matched.length && outOfRange) fail(begin, tok, outOfRange);
+      }
+    }
+
+    if (matched) {
+      matched.forEach(n => (negate ? excluded : included).add(n));
+      if (negate) hasExclude = true;
+      else hasInclude = true;
+    }
+    negate = false;
+    negateFrom = null;
+  }
+
+  if (negateFrom) fail(negateFrom, negateFrom, '! 后需要排除的序号');
+
+  const base = hasInclude ? [...included] : hasExclude ? span(first, last) : [];
+  return { indices: base.filter(n => !excluded.has(n)).sort((a, b) => a - b), errors };
+};
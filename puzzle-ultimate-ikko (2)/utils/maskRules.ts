@@ -0,0 +1,204 @@
+import { AppSettings, DEFAULT_MASK_RULE, MaskArea, MaskMode, MaskRule } from '../types';
+import { Canvas2D, LoadedImage, createScratchCanvas } from './canvasUtils';
+import { MaskQueryContext, parseMaskQuery } from './maskQuery';
+import { createId } from './storage';
+
+export const MASK_MODES: { mode: MaskMode; label: string }[] = [
+  { mode: 'line', label: '画线打码' },
+  { mode: 'image', label: '图片/贴纸' },
+  { mode: 'text', label: '文字印章' },
+  { mode: 'blur', label: '模糊' },
+  { mode: 'mosaic', label: '马赛克' },
+  { mode: 'fill', label: '色块' },
+];
+
+// Modes that hide the image. They are drawn straight after it, under the caption and number,
+// and can be limited to part of the cell.
+export const coversImage = (mode: MaskMode) => mode === 'blur' || mode === 'mosaic' || mode === 'fill';
+
+const BLUR_PASSES = 3; // Three box blurs approximate a Gaussian
+
+const STAMP_ANGLE = -12 * Math.PI / 180;
+
+export const createMaskRule = (patch: Partial<MaskRule> = {}): MaskRule => ({ ...DEFAULT_MASK_RULE, id: createId(), ...patch });
+
+// Settings saved before mask rules had one flat set of mask fields
+interface LegacyMaskSettings {
+  maskIndicesStr?: string;
+  maskMode?: 'line' | 'image';
+  lineStyle?: 'cross' | 'slash';
+  maskColor?: string;
+  maskWidth?: number;
+  stickerImgUrl?: string | null;
+  stickerSize?: number;
+  stickerX?: number;
+  stickerY?: number;
+}
+
+// Turns legacy mask fields into the first rule, and fills in fields added to rules since they were saved
+export const migrateMaskSettings = <T extends Partial<AppSettings>>(stored: T): T => {
+  if (stored.maskRules) return { ...stored, maskRules: stored.maskRules.map(rule => ({ ...DEFAULT_MASK_RULE, ...rule })) };
+  const { maskIndicesStr, maskMode, lineStyle, maskColor, maskWidth, stickerImgUrl, stickerSize, stickerX, stickerY, ...rest } = stored as T & LegacyMaskSettings;
+  if (maskIndicesStr === undefined && stickerImgUrl === undefined) return stored;
+  const rule = createMaskRule({
+    target: maskIndicesStr ?? '',
+    mode: maskMode ?? DEFAULT_MASK_RULE.mode,
+    lineStyle: lineStyle ?? DEFAULT_MASK_RULE.lineStyle,
+    color: maskColor ?? DEFAULT_MASK_RULE.color,
+    width: maskWidth ?? DEFAULT_MASK_RULE.width,
+    stickerImgUrl: stickerImgUrl ?? null,
+    size: stickerSize ?? DEFAULT_MASK_RULE.size,
+    posX: stickerX ?? DEFAULT_MASK_RULE.posX,
+    posY: stickerY ?? DEFAULT_MASK_RULE.posY
+  });
+  return { ...rest, maskRules: [rule] } as unknown as T;
+};
+
+// Rule id -> matched numbers, for every enabled rule with a target
+export const resolveMaskTargets = (rules: MaskRule[], ctx: MaskQueryContext): Record<string, number[]> => {
+  const targets: Record<string, number[]> = {};
+  rules.forEach(rule => {
+    if (rule.enabled && rule.target.trim()) targets[rule.id] = parseMaskQuery(rule.target, ctx).indices;
+  });
+  return targets;
+};
+
+// Rotated text in a bordered box, shrunk until it fits `size` % of the cell width
+const drawStamp = (ctx: Canvas2D, rule: MaskRule, cx: number, cy: number, w: number) => {
+  const text = rule.text.trim();
+  if (!text) return;
+  const boxW = w * rule.size / 100;
+  let fontSize = boxW * 0.5;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const textW = ctx.measureText(text).width;
+  if (textW > boxW * 0.8) {
+    fontSize *= (boxW * 0.8) / textW;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+  }
+  const pad = fontSize * 0.35;
+  const bw = ctx.measureText(text).width + pad * 2;
+  const bh = fontSize + pad * 2;
+
+  ctx.translate(cx, cy);
+  ctx.rotate(STAMP_ANGLE);
+  ctx.strokeStyle = rule.color;
+  ctx.fillStyle = rule.color;
+  ctx.lineWidth = Math.max(1, rule.width * (w / 500));
+  ctx.strokeRect(-bw / 2, -bh / 2, bw, bh);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 0, 0);
+};
+
+// Pixel rect of `area` inside a cell, clamped to the canvas
+const areaRect = (ctx: Canvas2D, area: MaskArea | null, x: number, y: number, w: number, h: number) => {
+  const a = area || { x: 0, y: 0, w: 1, h: 1 };
+  const left = Math.max(0, Math.round(x + a.x * w));
+  const top = Math.max(0, Math.round(y + a.y * h));
+  const right = Math.min(ctx.canvas.width, Math.round(x + (a.x + a.w) * w));
+  const bottom = Math.min(ctx.canvas.height, Math.round(y + (a.y + a.h) * h));
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+// Running-sum box blur along rows, then columns. Edges repeat the border pixel.
+const boxBlur = (data: Uint8ClampedArray, w: number, h: number, r: number) => {
+  const tmp = new Uint8ClampedArray(data.length);
+  const span = r * 2 + 1;
+  const pass = (src: Uint8ClampedArray, dst: Uint8ClampedArray, lines: number, len: number, lineStep: number, step: number) => {
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStep;
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let i = -r; i <= r; i++) sum += src[base + Math.min(len - 1, Math.max(0, i)) * step + c];
+        for (let i = 0; i < len; i++) {
+          dst[base + i * step + c] = sum / span;
+          sum += src[base + Math.min(len - 1, i + r + 1) * step + c] - src[base + Math.max(0, i - r) * step + c];
+        }
+      }
+    }
+  };
+  for (let k = 0; k < BLUR_PASSES; k++) {
+    pass(data, tmp, h, w, w * 4, 4);
+    pass(tmp, data, w, h, 4, w * 4);
+  }
+};
+
+// Every block takes the average colour of its pixels
+const pixelate = (data: Uint8ClampedArray, w: number, h: number, block: number) => {
+  for (let by = 0; by < h; by += block) {
+    for (let bx = 0; bx < w; bx += block) {
+      const bw = Math.min(block, w - bx), bh = Math.min(block, h - by);
+      const sum = [0, 0, 0, 0];
+      for (let y = by; y < by + bh; y++)
+        for (let x = bx; x < bx + bw; x++) for (let c = 0; c < 4; c++) sum[c] += data[(y * w + x) * 4 + c];
+      const avg = sum.map(v => v / (bw * bh));
+      for (let y = by; y < by + bh; y++)
+        for (let x = bx; x < bx + bw; x++) for (let c = 0; c < 4; c++) data[(y * w + x) * 4 + c] = avg[c];
+    }
+  }
+};
+
+// Blur, mosaic or fill over the rule's area. Sizes are relative to the cell width, so the small
+// preview and the full-size export look the same.
+const drawCover = (ctx: Canvas2D, rule: MaskRule, x: number, y: number, w: number, h: number) => {
+  const r = areaRect(ctx, rule.area, x, y, w, h);
+  if (r.w <= 0 || r.h <= 0) return;
+  if (rule.mode === 'fill') {
+    ctx.globalAlpha = rule.fillOpacity;
+    ctx.fillStyle = rule.color;
+    ctx.fillRect(r.x, r.y, r.w, r.h);
+    ctx.globalAlpha = 1;
+    const text = rule.text.trim();
+    if (!text) return;
+    let fontSize = Math.min(r.h * 0.4, r.w * 0.3);
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    const textW = ctx.measureText(text).width;
+    if (textW > r.w * 0.8) {
+      fontSize *= (r.w * 0.8) / textW;
+      ctx.font = `bold ${fontSize}px sans-serif`;
+    }
+    ctx.fillStyle = rule.textColor;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, r.x + r.w / 2, r.y + r.h / 2);
+    return;
+  }
+  const pixels = ctx.getImageData(r.x, r.y, r.w, r.h);
+  if (rule.mode === 'blur') boxBlur(pixels.data, r.w, r.h, Math.max(1, Math.round(w * rule.blurRadius / 100)));
+  else pixelate(pixels.data, r.w, r.h, Math.max(2, Math.round(w * rule.mosaicSize / 100)));
+  // putImageData ignores the clip, so go through a scratch canvas to keep rounded corners.
+  // Clearing first makes the result replace the area rather than blend over it.
+  const scratch = createScratchCanvas(r.w, r.h);
+  (scratch.getContext('2d') as Canvas2D).putImageData(pixels, 0, 0);
+  ctx.clearRect(r.x, r.y, r.w, r.h);
+  ctx.drawImage(scratch, r.x, r.y);
+};
+
+// One rule's mark on one cell. `sticker` is the rule's pre-loaded image, if it has one.
+export const drawMaskRule = (ctx: Canvas2D, rule: MaskRule, sticker: LoadedImage | null, x: number, y: number, w: number, h: number) => {
+  const cx = x + w * rule.posX / 100;
+  const cy = y + h * rule.posY / 100;
+  ctx.save();
+  if (rule.mode === 'line') {
+    ctx.beginPath();
+    ctx.strokeStyle = rule.color;
+    ctx.lineWidth = rule.width * (w / 500) * 5;
+    ctx.lineCap = 'round';
+    if (rule.lineStyle === 'cross') {
+      ctx.moveTo(x + w * 0.2, y + h * 0.2); ctx.lineTo(x + w * 0.8, y + h * 0.8);
+      ctx.moveTo(x + w * 0.8, y + h * 0.2); ctx.lineTo(x + w * 0.2, y + h * 0.8);
+    } else {
+      ctx.moveTo(x + w * 0.2, y + h * 0.8); ctx.lineTo(x + w * 0.8, y + h * 0.2);
+    }
+    ctx.stroke();
+  } else if (rule.mode === 'image' && sticker) {
+    const sw = w * rule.size / 100;
+    const sh = sw * (sticker.height / sticker.width);
+    ctx.drawImage(sticker, cx - sw / 2, cy - sh / 2, sw, sh);
+  } else if (rule.mode === 'text') {
+    drawStamp(ctx, rule, cx, cy, w);
+  } else if (coversImage(rule.mode)) {
+    drawCover(ctx, rule, x, y, w, h);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,186 @@
+import { AppSettings, NumberStyle } from '../types';
+
+export const NUMBER_PLACEHOLDER = '{n}';
+
+// A cell's place in the layout, 0-based
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+// Everything needed to turn a cell number into its label and back
+export interface NumberFormat {
+  style: NumberStyle;
+  pad: number;      // Minimum digits for decimal (zero-padded)
+  template: string; // Label with {n} for the number, e.g. "No.{n}" or "第{n}张"
+  cols: number;     // Row-column labels: cells per row when no positions are known
+  startNum: number; // Row-column labels: the number shown as A1
+  positions?: GridPosition[]; // Row-column labels: where each cell (n - startNum) sits in the layout
+}
+
+// Plain decimal labels, the pre-format behaviour
+export const PLAIN_NUMBER_FORMAT: NumberFormat = { style: 'decimal', pad: 0, template: NUMBER_PLACEHOLDER, cols: 1, startNum: 1 };
+
+export const NUMBER_STYLES: { style: NumberStyle; label: string }[] = [
+  { style: 'decimal', label: '数字 1 2 3' },
+  { style: 'alpha-upper', label: '字母 A B C' },
+  { style: 'alpha-lower', label: '字母 a b c' },
+  { style: 'roman-upper', label: '罗马 I II III' },
+  { style: 'roman-lower', label: '罗马 i ii iii' },
+  { style: 'chinese', label: '中文 一 二 三' },
+  { style: 'row-col', label: '行列 A1 A2 B1' },
+];
+
+// Without `positions` (nothing laid out yet) row-column labels assume a plain grid of settings.cols
+export const numberFormatOf = (settings: AppSettings, positions?: GridPosition[]): NumberFormat => ({
+  style: settings.numStyle,
+  pad: settings.numPad,
+  template: settings.numTemplate || NUMBER_PLACEHOLDER,
+  cols: Math.max(1, settings.cols),
+  startNum: settings.startNumber,
+  positions: positions?.length ? positions : undefined
+});
+
+// --- Styles ---
+
+// Bijective base 26: 1 = A, 26 = Z, 27 = AA
+const toAlpha = (n: number): string => {
+  let s = '';
+  for (let x = n; x > 0; x = Math.floor((x - 1) / 26)) s = String.fromCharCode(65 + ((x - 1) % 26)) + s;
+  return s;
+};
+
+const fromAlpha = (s: string): number =>
+  s.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0);
+
+const ROMAN: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+  [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+];
+
+const toRoman = (n: number): string => {
+  let s = '';
+  let rest = n;
+  ROMAN.forEach(([value, glyph]) => { while (rest >= value) { s += glyph; rest -= value; } });
+  return s;
+};
+
+const fromRoman = (s: string): number => {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+  const chars = s.toUpperCase().split('');
+  return chars.reduce((n, ch, i) => {
+    const v = values[ch];
+    return values[chars[i + 1]] > v ? n - v : n + v;
+  }, 0);
+};
+
+const CN_DIGITS = '零一二三四五六七八九';
+const CN_UNITS = ['', '十', '百', '千'];
+
+// 0-9999 without the leading "一" trimmed
+const cnSection = (n: number): string => {
+  let s = '';
+  let zero = false;
+  for (let i = 3; i >= 0; i--) {
+    const d = Math.floor(n / 10 ** i) % 10;
+    if (d === 0) { if (s) zero = true; continue; }
+    if (zero) { s += '零'; zero = false; }
+    s += CN_DIGITS[d] + CN_UNITS[i];
+  }
+  return s;
+};
+
+const toChinese = (n: number): string => {
+  if (n === 0) return '零';
+  const high = Math.floor(n / 10000);
+  const low = n % 10000;
+  let s = high ? cnSection(high) + '万' + (low && low < 1000 ? '零' : '') + (low ? cnSection(low) : '') : cnSection(low);
+  if (s.startsWith('一十')) s = s.slice(1); // 十二, not 一十二
+  return s;
+};
+
+const fromChinese = (s: string): number => {
+  const units: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+  let total = 0, section = 0, digit = 0;
+  for (const ch of s.replace(/两/g, '二').replace(/〇/g, '零')) {
+    const d = CN_DIGITS.indexOf(ch);
+    if (d >= 0) digit = d;
+    else if (units[ch]) { section += (digit || 1) * units[ch]; digit = 0; }
+    else if (ch === '万') { total += (section + digit) * 10000; section = 0; digit = 0; }
+  }
+  return total + section + digit;
+};
+
+// Each style turns a number into a label body, or back. Out-of-range values fall back to decimal.
+const STYLE_CODECS: Record<NumberStyle, { format: (n: number, f: NumberFormat) => string | null; parse: (body: string, f: NumberFormat) => number | null }> = {
+  'decimal': {
+    format: (n, f) => (n < 0 ? '-' : '') + String(Math.abs(n)).padStart(f.pad, '0'),
+    parse: body => (/^-?\d+$/.test(body) ? parseInt(body, 10) : null)
+  },
+  'alpha-upper': {
+    format: n => (n > 0 ? toAlpha(n) : null),
+    parse: body => (/^[A-Z]+$/.test(body) ? fromAlpha(body) : null)
+  },
+  'alpha-lower': {
+    format: n => (n > 0 ? toAlpha(n).toLowerCase() : null),
+    parse: body => (/^[a-z]+$/.test(body) ? fromAlpha(body) : null)
+  },
+  'roman-upper': {
+    format: n => (n > 0 && n < 4000 ? toRoman(n) : null),
+    parse: body => (/^[IVXLCDM]+$/.test(body) && toRoman(fromRoman(body)) === body ? fromRoman(body) : null)
+  },
+  'roman-lower': {
+    format: n => (n > 0 && n < 4000 ? toRoman(n).toLowerCase() : null),
+    parse: body => (/^[ivxlcdm]+$/.test(body) && toRoman(fromRoman(body)).toLowerCase() === body ? fromRoman(body) : null)
+  },
+  'chinese': {
+    format: n => (n >= 0 && n < 1e8 ? toChinese(n) : null),
+    parse: body => (/^[零〇一二两三四五六七八九十百千万]+$/.test(body) ? fromChinese(body) : null)
+  },
+  // Row letter + column number of the cell's layout position (spanning cells: top-left unit)
+  'row-col': {
+    format: (n, f) => {
+      const k = n - f.startNum;
+      if (k < 0) return null;
+      const pos = f.positions ? f.positions[k] : { row: Math.floor(k / f.cols), col: k % f.cols };
+      return pos ? toAlpha(pos.row + 1) + (pos.col + 1) : null;
+    },
+    parse: (body, f) => {
+      const m = body.match(/^([A-Za-z]+)(\d+)$/);
+      if (!m) return null;
+      const row = fromAlpha(m[1]) - 1, col = parseInt(m[2], 10) - 1;
+      if (f.positions) {
+        const k = f.positions.findIndex(p => p && p.row === row && p.col === col);
+        return k >= 0 ? f.startNum + k : null;
+      }
+      if (col < 0 || col >= f.cols) return null;
+      return f.startNum + row * f.cols + col;
+    }
+  }
+};
+
+export const formatNumber = (n: number, f: NumberFormat): string => {
+  const body = STYLE_CODECS[f.style]?.format(n, f) ?? String(n);
+  return f.template.includes(NUMBER_PLACEHOLDER) ? f.template.split(NUMBER_PLACEHOLDER).join(body) : f.template + body;
+};
+
+// Inverse of formatNumber for one typed label. Plain numbers always work, with or without
+// the template's prefix/suffix, so "7", "007" and "No.007" all mean 7.
+export const parseNumberLabel = (label: string, f: NumberFormat): number | null => {
+  const text = label.trim();
+  if (!text) return null;
+
+  const [prefix, suffix = ''] = f.template.includes(NUMBER_PLACEHOLDER) ? f.template.split(NUMBER_PLACEHOLDER) : [f.template, ''];
+  const bodies = [text];
+  const lower = text.toLowerCase();
+  if ((prefix || suffix) && lower.startsWith(prefix.toLowerCase()) && lower.endsWith(suffix.toLowerCase()) && text.length > prefix.length + suffix.length) {
+    bodies.unshift(text.slice(prefix.length, text.length - suffix.length));
+  }
+
+  for (const body of bodies) {
+    const styled = STYLE_CODECS[f.style]?.parse(body, f);
+    if (styled !== null && styled !== undefined) return styled;
+    if (/^-?\d+$/.test(body)) return parseInt(body, 10);
+  }
+  return null;
+};
@@ -0,0 +1,65 @@
+import { AppSettings, OverlayAnchor, OverlayPlacement } from '../types';
+import type { Canvas2D, LoadedImage } from './canvasUtils';
+import type { CellRect } from './layout';
+
+export const OVERLAY_PLACEMENTS: { placement: OverlayPlacement; label: string }[] = [
+  { placement: 'stretch', label: '拉伸铺满' },
+  { placement: 'tile', label: '平铺' },
+  { placement: 'contain', label: '完整适应' },
+  { placement: 'cover', label: '裁剪填充' },
+  { placement: 'cell', label: '每格重复' },
+];
+
+// 3 x 3 grid, row by row
+export const OVERLAY_ANCHORS: OverlayAnchor[] = [
+  'top-left', 'top-center', 'top-right',
+  'center-left', 'center', 'center-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+// 0 / 0.5 / 1 along each axis
+const anchorFactors = (anchor: OverlayAnchor) => ({
+  ax: anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5,
+  ay: anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5,
+});
+
+// Fit the overlay into `box` minus the margin, scale it, and pin it to the anchor. Cover is
+// clipped to the box so it never spills into neighbouring cells.
+const placeInBox = (ctx: Canvas2D, img: LoadedImage, box: CellRect, fit: 'contain' | 'cover', settings: AppSettings) => {
+  const margin = Math.min(box.w, box.h) * settings.overlayMargin / 100;
+  const aw = box.w - margin * 2, ah = box.h - margin * 2;
+  if (aw <= 0 || ah <= 0) return;
+  const k = (fit === 'cover' ? Math.max : Math.min)(aw / img.width, ah / img.height) * settings.overlayScale / 100;
+  const dw = img.width * k, dh = img.height * k;
+  const { ax, ay } = anchorFactors(settings.overlayAnchor);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x + margin, box.y + margin, aw, ah);
+  ctx.clip();
+  ctx.drawImage(img, box.x + margin + (aw - dw) * ax, box.y + margin + (ah - dh) * ay, dw, dh);
+  ctx.restore();
+};
+
+// Repeats the overlay at its own pixel size times the scale, with the margin as the gap between copies
+const tile = (ctx: Canvas2D, img: LoadedImage, width: number, height: number, settings: AppSettings) => {
+  const tw = Math.max(1, img.width * settings.overlayScale / 100);
+  const th = Math.max(1, img.height * settings.overlayScale / 100);
+  const gap = Math.min(width, height) * settings.overlayMargin / 100;
+  for (let y = 0; y < height; y += th + gap) {
+    for (let x = 0; x < width; x += tw + gap) ctx.drawImage(img, x, y, tw, th);
+  }
+};
+
+export const drawOverlay = (ctx: Canvas2D, img: LoadedImage, width: number, height: number, cells: CellRect[], settings: AppSettings) => {
+  ctx.save();
+  ctx.globalAlpha = settings.overlayOpacity;
+  ctx.globalCompositeOperation = settings.overlayMode;
+  switch (settings.overlayPlacement) {
+    case 'tile': tile(ctx, img, width, height, settings); break;
+    case 'contain':
+    case 'cover': placeInBox(ctx, img, { x: 0, y: 0, w: width, h: height }, settings.overlayPlacement, settings); break;
+    case 'cell': cells.forEach(cell => placeInBox(ctx, img, cell, 'contain', settings)); break;
+    default: ctx.drawImage(img, 0, 0, width, height);
+  }
+  ctx.restore();
+};
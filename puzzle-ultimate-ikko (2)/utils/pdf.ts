@@ -0,0 +1,142 @@
+import { PdfPageSize } from '../types';
+import { createScratchCanvas } from './canvasUtils';
+import { encodeCanvas } from './exportFormats';
+
+export const PDF_PAGE_SIZES: { size: PdfPageSize; label: string }[] = [
+  { size: 'fit', label: '适应图片' },
+  { size: 'a4', label: 'A4' },
+  { size: 'letter', label: 'Letter' },
+];
+
+// Portrait width x height in points (1/72 inch)
+const PAPER: Record<Exclude<PdfPageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+
+const PT_PER_PX = 0.75; // Fit-to-image pages treat sheet pixels as CSS pixels (96 dpi)
+const PT_PER_MM = 72 / 25.4;
+const MAX_PAGE_PT = 14400; // Largest page size readers accept (200 inch)
+const REENCODE_QUALITY = 0.92;
+
+export interface PdfOptions {
+  pageSize: PdfPageSize;
+  margin: number; // mm, on every side
+}
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number; // 1 gray, 3 YCbCr
+}
+
+// Reads the frame header (SOFn) for size and colour components without decoding
+const readJpegInfo = (bytes: Uint8Array): JpegInfo | null => {
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return null;
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xFF) { i++; continue; }
+    const marker = bytes[i + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xFF) { i++; continue; }
+    if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD8)) { i += 2; continue; }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      return {
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9]
+      };
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return null;
+};
+
+// JPEG sheets go in as they are; other formats (PNG, WebP, AVIF) have to be converted once
+const toJpegBytes = async (blob: Blob): Promise<Uint8Array> => {
+  if (blob.type === 'image/jpeg') return new Uint8Array(await blob.arrayBuffer());
+  const bitmap = await createImageBitmap(blob);
+  const canvas = createScratchCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  ctx.fillStyle = '#FFFFFF'; // JPEG has no alpha
+  ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const jpeg = await encodeCanvas(canvas, { mimeType: 'image/jpeg', quality: REENCODE_QUALITY });
+  if (!jpeg) throw new Error('JPEG 转换失败');
+  return new Uint8Array(await jpeg.arrayBuffer());
+};
+
+// Page box and the image rect on it. Paper turns landscape for landscape sheets.
+const placeOnPage = (info: JpegInfo, { pageSize, margin }: PdfOptions) => {
+  const m = Math.max(0, margin) * PT_PER_MM;
+  if (pageSize === 'fit') {
+    const scale = Math.min(PT_PER_PX, (MAX_PAGE_PT - m * 2) / Math.max(info.width, info.height));
+    const w = info.width * scale, h = info.height * scale;
+    return { pageW: w + m * 2, pageH: h + m * 2, x: m, y: m, w, h };
+  }
+  const [short, long] = PAPER[pageSize];
+  const [pageW, pageH] = info.width > info.height ? [long, short] : [short, long];
+  const scale = Math.max(0, Math.min((pageW - m * 2) / info.width, (pageH - m * 2) / info.height));
+  const w = info.width * scale, h = info.height * scale;
+  return { pageW, pageH, x: (pageW - w) / 2, y: (pageH - h) / 2, w, h };
+};
+
+const COLOR_SPACES: Record<number, string> = { 1: '/DeviceGray', 3: '/DeviceRGB' };
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+// One sheet per page, each JPEG embedded as a DCTDecode image stream. Written by hand (objects,
+// xref table, trailer) so it runs offline with no PDF library.
+export const buildPdf = async (blobs: Blob[], options: PdfOptions, onPage?: (count: number) => void): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const begin = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page / content / image for every sheet
+  const pageId = (i: number) => 3 + i * 3;
+  write('%PDF-1.4\n%âãÏÓ\n');
+  begin(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  begin(2);
+  write(`<< /Type /Pages /Kids [${blobs.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${blobs.length} >>\nendobj\n`);
+
+  for (let i = 0; i < blobs.length; i++) {
+    const jpeg = await toJpegBytes(blobs[i]);
+    const info = readJpegInfo(jpeg);
+    if (!info || !COLOR_SPACES[info.components]) throw new Error(`第 ${i + 1} 张无法读取 JPEG 信息`);
+    const { pageW, pageH, x, y, w, h } = placeOnPage(info, options);
+    const id = pageId(i);
+
+    begin(id);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageW)} ${num(pageH)}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+
+    const content = `q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(y)} cm /Im0 Do Q`;
+    begin(id + 1);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    begin(id + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} /ColorSpace ${COLOR_SPACES[info.components]} /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+    onPage?.(i + 1);
+  }
+
+  const size = pageId(blobs.length);
+  const xref = length;
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+  for (let id = 1; id < size; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+};
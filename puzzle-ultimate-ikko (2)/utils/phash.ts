@@ -0,0 +1,87 @@
+import { ImageData } from '../types';
+import { createScratchCanvas } from './canvasUtils';
+
+// dHash: compare neighbouring pixels of a 9x8 grayscale thumbnail -> 64 bits
+const HASH_W = 9;
+const HASH_H = 8;
+const PRE_SCALE = 64; // Two-step downscale: one huge -> 9px jump aliases badly
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 6; // Max differing bits (of 64) to count as a near-duplicate
+
+export const computeDHash = async (blob: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const pre = createScratchCanvas(PRE_SCALE, PRE_SCALE);
+    const preCtx = pre.getContext('2d') as CanvasRenderingContext2D | null;
+    const small = createScratchCanvas(HASH_W, HASH_H);
+    const ctx = small.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+    if (!preCtx || !ctx) throw new Error('Canvas unavailable');
+
+    preCtx.imageSmoothingQuality = 'high';
+    preCtx.drawImage(bitmap, 0, 0, PRE_SCALE, PRE_SCALE);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(pre, 0, 0, HASH_W, HASH_H);
+
+    const { data } = ctx.getImageData(0, 0, HASH_W, HASH_H);
+    const luma = (x: number, y: number) => {
+      const p = (y * HASH_W + x) * 4;
+      return data[p] * 0.299 + data[p + 1] * 0.587 + data[p + 2] * 0.114;
+    };
+
+    let hex = '';
+    for (let y = 0; y < HASH_H; y++) {
+      // Each row yields 8 bits = 2 hex digits
+      let byte = 0;
+      for (let x = 0; x < HASH_W - 1; x++) {
+        byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Null when the image can't be decoded, so it isn't retried forever
+export const hashImageUrl = async (url: string): Promise<string | null> => {
+  try {
+    const blob = await fetch(url).then(r => r.blob());
+    return await computeDHash(blob);
+  } catch (e) {
+    return null;
+  }
+};
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export const hammingDistance = (a: string, b: string): number => {
+  let dist = 0;
+  for (let i = 0; i < a.length; i++) {
+    dist += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return dist;
+};
+
+// Clusters images whose hashes are within `threshold` bits (transitively). Only groups of 2+.
+export const groupNearDuplicates = (images: ImageData[], threshold: number): ImageData[][] => {
+  const hashed = images.filter(i => typeof i.hash === 'string');
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].hash!, hashed[j].hash!) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, ImageData[]>();
+  hashed.forEach((img, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(img);
+  });
+  return [...groups.values()].filter(g => g.length > 1);
+};
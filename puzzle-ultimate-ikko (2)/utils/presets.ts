@@ -0,0 +1,90 @@
+import { AppSettings, Preset } from '../types';
+import { migrateExportSettings } from './exportFormats';
+import { migrateMaskSettings } from './maskRules';
+import { createId } from './storage';
+
+export type SettingsSection = 'layout' | 'numbering' | 'caption' | 'export' | 'overlay' | 'watermark' | 'band' | 'masking';
+
+// Which AppSettings keys belong to which section. New settings must be listed here to be
+// saved in presets. Uploaded assets (overlay/sticker images) are deliberately left out.
+export const SETTINGS_SECTIONS: Record<SettingsSection, { label: string; keys: (keyof AppSettings)[] }> = {
+  layout: { label: '布局', keys: ['aspectRatio', 'isCustomRatio', 'customW', 'customH', 'gap', 'padding', 'bgMode', 'bgColor', 'bgGradientFrom', 'bgGradientTo', 'bgGradientAngle', 'cellRadius', 'cellBorderWidth', 'cellBorderColor', 'cols', 'groupRows', 'layoutMode', 'templateId', 'fitMode', 'letterboxFill', 'letterboxColor'] },
+  numbering: {
+    label: '序号',
+    keys: ['showNum', 'startNumber', 'numStyle', 'numPad', 'numTemplate', 'fontSize', 'fontColor', 'fontStrokeColor', 'enableStroke', 'fontWeight', 'fontShadowColor', 'enableShadow', 'fontFamily', 'fontPos', 'numMarginX', 'numMarginY', 'numBadge', 'numBadgeColor', 'numBadgeOpacity', 'numBadgePadding', 'numBadgeRadius', 'numAutoContrast']
+  },
+  caption: {
+    label: '文字说明',
+    keys: ['showCaption', 'captionSource', 'captionRegex', 'captionFontSize', 'captionFontFamily', 'captionFontWeight', 'captionColor', 'captionBand', 'captionBandColor', 'captionBandOpacity', 'captionPos', 'captionAlign', 'captionOverflow', 'captionMaxLines']
+  },
+  export: {
+    label: '导出',
+    keys: ['exportFormat', 'exportQuality', 'exportTargetKB', 'pdfPageSize', 'pdfMargin', 'gifSource', 'gifFrameMs', 'gifLoop', 'gifWidth', 'gifDither']
+  },
+  overlay: { label: '覆盖层', keys: ['overlayOpacity', 'overlayMode', 'overlayPlacement', 'overlayAnchor', 'overlayScale', 'overlayMargin'] },
+  watermark: {
+    label: '文字水印',
+    keys: ['showWatermark', 'watermarkText', 'watermarkFontFamily', 'watermarkFontWeight', 'watermarkSize', 'watermarkColor', 'watermarkAngle', 'watermarkSpacing', 'watermarkOpacity', 'watermarkBlend']
+  },
+  band: {
+    label: '页眉页脚',
+    keys: ['showBand', 'bandPosition', 'bandHeight', 'bandTitle', 'bandSubtitle', 'bandShowDate', 'bandPageFormat', 'bandFontFamily', 'bandBgColor', 'bandTitleColor', 'bandTextColor']
+  },
+  masking: { label: '打码与贴纸', keys: ['maskRules'] },
+};
+
+export const ALL_SECTIONS = Object.keys(SETTINGS_SECTIONS) as SettingsSection[];
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'builtin-wechat-grid',
+    name: '微信九宫格',
+    createdAt: 0,
+    builtIn: true,
+    settings: { aspectRatio: 1, isCustomRatio: false, gap: 10, cols: 3, groupRows: 3, showNum: true, fontPos: 'bottom-center', exportQuality: 85 }
+  },
+  {
+    id: 'builtin-xhs-poster',
+    name: '小红书 3:4',
+    createdAt: 0,
+    builtIn: true,
+    // Square cells, 3 x 4 per sheet -> each sheet is 3:4
+    settings: { aspectRatio: 1, isCustomRatio: false, gap: 12, cols: 3, groupRows: 4, showNum: true, fontPos: 'top-left', exportQuality: 90 }
+  },
+  {
+    id: 'builtin-contact-sheet',
+    name: '长图目录',
+    createdAt: 0,
+    builtIn: true,
+    settings: { aspectRatio: 0.75, isCustomRatio: false, gap: 8, cols: 4, groupRows: 0, showNum: true, fontSize: 200, fontPos: 'top-left', exportQuality: 70 }
+  },
+];
+
+const pickSections = (settings: Partial<AppSettings>, sections: SettingsSection[]): Partial<AppSettings> => {
+  const picked: Partial<AppSettings> = {};
+  const copy = <K extends keyof AppSettings>(key: K) => { picked[key] = settings[key]; };
+  sections.forEach(section => {
+    SETTINGS_SECTIONS[section].keys.forEach(key => {
+      if (key in settings) copy(key);
+    });
+  });
+  return picked;
+};
+
+export const presetFromSettings = (name: string, settings: AppSettings): Preset => ({
+  id: createId(),
+  name,
+  createdAt: Date.now(),
+  settings: pickSections({ ...settings, maskRules: settings.maskRules.map(rule => ({ ...rule, stickerImgUrl: null })) }, ALL_SECTIONS)
+});
+
+// Overwrite only the chosen sections; everything else (and all assets) stays as it was.
+// Mask rules keep the sticker of the current rule with the same id.
+export const applyPreset = (settings: AppSettings, preset: Preset, sections: SettingsSection[] = ALL_SECTIONS): AppSettings => {
+  const picked = pickSections(migrateExportSettings(migrateMaskSettings(preset.settings)), sections);
+  if (picked.maskRules) {
+    const stickers = new Map(settings.maskRules.map(rule => [rule.id, rule.stickerImgUrl]));
+    picked.maskRules = picked.maskRules.map(rule => ({ ...rule, stickerImgUrl: stickers.get(rule.id) ?? null }));
+  }
+  return { ...settings, ...picked };
+};
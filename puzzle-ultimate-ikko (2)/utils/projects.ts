@@ -0,0 +1,149 @@
+import { AppSettings, DEFAULT_SETTINGS, ImageData, ImageMeta, Project } from '../types';
+import { collectAssetUrls, mapSettingsAssets } from './canvasUtils';
+import { migrateExportSettings } from './exportFormats';
+import { migrateMaskSettings } from './maskRules';
+import {
+  createId, getImageFromDB, saveBatchImagesToDB, deleteBatchImagesFromDB, getAllImageKeysFromDB,
+  getAssetFromDB, saveAssetToDB, deleteAssetsFromDB, getAllProjectsFromDB, saveProjectToDB, deleteProjectFromDB
+} from './storage';
+
+const ASSET_REF_PREFIX = 'asset:';
+const TAB_LOCK = 'puzzle-open-tab';
+const LOAD_CHUNK_SIZE = 50;
+
+// Object URL -> asset id, for every overlay/sticker blob opened in this session
+export type AssetRegistry = Map<string, string>;
+
+export const newProject = (name: string, settings: AppSettings = DEFAULT_SETTINGS): Project => {
+  const now = Date.now();
+  return { id: createId(), name, createdAt: now, updatedAt: now, images: [], settings };
+};
+
+export const toImageMeta = ({ url, ...meta }: ImageData): ImageMeta => meta;
+
+export const assetIdsOf = (stored: AppSettings): string[] =>
+  collectAssetUrls(migrateMaskSettings(stored))
+    .filter(ref => ref.startsWith(ASSET_REF_PREFIX))
+    .map(ref => ref.slice(ASSET_REF_PREFIX.length));
+
+// Point stored asset refs at new ids (copies, imports); refs mapped to null are dropped
+export const remapAssetIds = (stored: AppSettings, fn: (id: string) => string | null | undefined): AppSettings =>
+  mapSettingsAssets(migrateMaskSettings(stored), ref => {
+    if (!ref.startsWith(ASSET_REF_PREFIX)) return null;
+    const id = fn(ref.slice(ASSET_REF_PREFIX.length));
+    return id ? ASSET_REF_PREFIX + id : null;
+  });
+
+// Swap live object URLs for asset refs; URLs the registry doesn't know are dropped
+export const toStoredSettings = (settings: AppSettings, registry: AssetRegistry): AppSettings =>
+  mapSettingsAssets(settings, url => {
+    const id = registry.get(url);
+    return id ? ASSET_REF_PREFIX + id : null;
+  });
+
+// Inverse of toStoredSettings: load referenced assets and hand out fresh object URLs
+export const restoreSettings = async (stored: Partial<AppSettings>, registry: AssetRegistry): Promise<AppSettings> => {
+  const settings = { ...DEFAULT_SETTINGS, ...migrateExportSettings(migrateMaskSettings(stored)) };
+  const urls = new Map<string, string>();
+  await Promise.all(assetIdsOf(settings).map(async id => {
+    const blob = await getAssetFromDB(id);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    registry.set(url, id);
+    urls.set(ASSET_REF_PREFIX + id, url);
+  }));
+  return mapSettingsAssets(settings, ref => urls.get(ref) ?? null);
+};
+
+export const registerAsset = (blob: Blob, registry: AssetRegistry): string => {
+  const id = createId();
+  const url = URL.createObjectURL(blob);
+  saveAssetToDB(id, blob).catch(e => console.error("Asset save failed", e));
+  registry.set(url, id);
+  return url;
+};
+
+// Resolve blobs for an ordered metadata list. Chunked so a large project doesn't block the UI.
+export const loadProjectImages = async (metaList: ImageMeta[]): Promise<ImageData[]> => {
+  const loadedImages = new Map<string, ImageData>();
+  for (let i = 0; i < metaList.length; i += LOAD_CHUNK_SIZE) {
+    const chunk = metaList.slice(i, i + LOAD_CHUNK_SIZE);
+    await Promise.all(chunk.map(async (meta) => {
+      try {
+        const blob = await getImageFromDB(meta.id);
+        if (blob) loadedImages.set(meta.id, { ...meta, url: URL.createObjectURL(blob) });
+      } catch (err) { /* ignore missing */ }
+    }));
+    await new Promise(r => setTimeout(r, 0));
+  }
+  return metaList
+    .map(meta => loadedImages.get(meta.id))
+    .filter((img): img is ImageData => !!img);
+};
+
+// Deep copy: blobs are re-saved under fresh ids so deleting one project never touches the other
+export const duplicateProject = async (source: Project, name: string): Promise<Project> => {
+  const images: ImageMeta[] = [];
+  for (let i = 0; i < source.images.length; i += LOAD_CHUNK_SIZE) {
+    const chunk = source.images.slice(i, i + LOAD_CHUNK_SIZE);
+    const copies = await Promise.all(chunk.map(async meta => {
+      const blob = await getImageFromDB(meta.id);
+      return blob ? { meta: { ...meta, id: createId() }, blob } : null;
+    }));
+    const batch = copies.filter((c): c is { meta: ImageMeta, blob: Blob } => !!c);
+    batch.forEach(c => images.push(c.meta));
+    await saveBatchImagesToDB(batch.map(c => ({ id: c.meta.id, blob: c.blob })));
+  }
+
+  const assetCopies = new Map<string, string>();
+  await Promise.all(assetIdsOf(source.settings).map(async id => {
+    const blob = await getAssetFromDB(id);
+    if (!blob) return;
+    const copyId = createId();
+    await saveAssetToDB(copyId, blob);
+    assetCopies.set(id, copyId);
+  }));
+
+  const copy: Project = {
+    ...newProject(name),
+    images,
+    settings: remapAssetIds(source.settings, id => assetCopies.get(id))
+  };
+  await saveProjectToDB(copy);
+  return copy;
+};
+
+export const deleteProjectData = async (project: Project): Promise<void> => {
+  await deleteBatchImagesFromDB(project.images.map(i => i.id));
+  await deleteAssetsFromDB(assetIdsOf(project.settings));
+  await deleteProjectFromDB(project.id);
+};
+
+// Every open tab holds a shared lock until it closes, so the purge below can tell whether it is
+// alone. Resolves once this tab's lock is granted.
+export const holdTabLock = (): Promise<void> => new Promise(resolve => {
+  if (!navigator.locks) return resolve();
+  navigator.locks.request(TAB_LOCK, { mode: 'shared' }, () => {
+    resolve();
+    return new Promise<void>(() => {});
+  }).catch(() => resolve());
+});
+
+// Without the Locks API other tabs can't be ruled out
+const isOnlyTab = async (): Promise<boolean> => {
+  if (!navigator.locks) return false;
+  const { held = [] } = await navigator.locks.query();
+  return held.filter(lock => lock.name === TAB_LOCK).length <= 1;
+};
+
+// Deleted images keep their blobs while undo can still bring them back. Undo history is
+// in-memory only, so blobs no project references after a reload are removed here. Skipped while
+// another tab is open, since its unsaved imports and undo history aren't visible from here;
+// `inUse` returns this tab's own, read after the scan so fresh imports are kept.
+export const purgeOrphanImages = async (inUse: () => Set<string>): Promise<void> => {
+  if (!await isOnlyTab()) return;
+  const [keys, projects] = await Promise.all([getAllImageKeysFromDB(), getAllProjectsFromDB()]);
+  const referenced = new Set(projects.flatMap(p => p.images.map(i => i.id)));
+  const live = inUse();
+  await deleteBatchImagesFromDB(keys.filter(key => !referenced.has(key) && !live.has(key)));
+};
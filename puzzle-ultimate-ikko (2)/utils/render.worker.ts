@@ -0,0 +1,34 @@
+import { drawAsync } from './canvasUtils';
+import { encodeCanvas } from './exportFormats';
+import type { RenderRequest, RenderResponse } from './renderPool';
+
+// The project compiles against the DOM lib only, so type the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<RenderRequest>) => void) | null;
+  postMessage: (msg: RenderResponse) => void;
+};
+
+scope.onmessage = async (e) => {
+  const { id, job, images, assets } = e.data;
+  try {
+    const canvas = new OffscreenCanvas(1, 1);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+    await drawAsync({
+      ...job,
+      ctx,
+      images,
+      assets,
+      // Cancellation terminates the whole worker from the main thread
+      isCancelled: () => false,
+      onProgress: count => scope.postMessage({ id, type: 'progress', count })
+    });
+
+    const blob = await encodeCanvas(canvas, job);
+    canvas.width = 1; canvas.height = 1;
+    scope.postMessage({ id, type: 'done', blob });
+  } catch (err) {
+    scope.postMessage({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
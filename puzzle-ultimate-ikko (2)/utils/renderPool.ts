@@ -0,0 +1,191 @@
+import { drawAsync, collectAssetUrls, DrawItem, DrawOptions } from './canvasUtils';
+import { EncodeOptions, encodeCanvas } from './exportFormats';
+
+const MAX_WORKERS = 3; // Every worker holds a full-size sheet canvas, so keep the pool small
+
+// Everything drawAsync needs for one sheet, minus the live context and callbacks.
+// Image `src`s are object URLs here; they are resolved to Blobs before crossing into a worker.
+export interface RenderJob extends Omit<DrawOptions, 'ctx' | 'isCancelled' | 'onProgress' | 'assets'>, EncodeOptions {}
+
+export interface RenderRequest {
+  id: number;
+  job: Omit<RenderJob, 'images'>;
+  images: DrawItem[]; // `src` is a Blob here, or null where fetching it failed
+  assets: Record<string, Blob>;
+}
+
+export type RenderResponse =
+  | { id: number; type: 'progress'; count: number }
+  | { id: number; type: 'done'; blob: Blob | null }
+  | { id: number; type: 'error'; message: string };
+
+export interface RenderProgress {
+  sheets: number; // Finished sheets
+  cells: number;  // Painted cells across all sheets
+}
+
+let offscreenSupport: boolean | null = null;
+
+export const supportsOffscreenRender = (): boolean => {
+  if (offscreenSupport === null) {
+    try {
+      // Safari 16.0-16.3 ships OffscreenCanvas without a 2D context, so probe for one
+      offscreenSupport = typeof Worker !== 'undefined'
+        && typeof OffscreenCanvas !== 'undefined'
+        && typeof createImageBitmap === 'function'
+        && !!new OffscreenCanvas(1, 1).getContext('2d');
+    } catch (e) {
+      offscreenSupport = false;
+    }
+  }
+  return offscreenSupport;
+};
+
+const fetchBlob = (url: string): Promise<Blob> => fetch(url).then(r => r.blob());
+
+const createRenderPool = (size: number) => {
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const waiting: ((worker: Worker | null) => void)[] = [];
+  const active = new Map<Worker, () => void>(); // Worker -> resolves its job with null on terminate
+  let nextId = 0;
+  let terminated = false;
+
+  const acquire = (): Promise<Worker | null> => {
+    if (terminated) return Promise.resolve(null);
+    const free = idle.pop();
+    if (free) return Promise.resolve(free);
+    if (workers.length < size) {
+      const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+      workers.push(worker);
+      return Promise.resolve(worker);
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+
+  const release = (worker: Worker) => {
+    const next = waiting.shift();
+    if (next) next(worker);
+    else idle.push(worker);
+  };
+
+  // `retried`: the job already crashed one worker
+  const render = async (job: RenderJob, onProgress: (count: number) => void, retried = false): Promise<Blob | null> => {
+    const worker = await acquire();
+    if (!worker) return null;
+
+    const { images, ...rest } = job;
+    const assetUrls = collectAssetUrls(job.settings);
+    const [items, assetBlobs] = await Promise.all([
+      // An image that can't be fetched becomes an error cell rather than failing the batch
+      Promise.all(images.map(async item => ({ ...item, src: await fetchBlob(item.src as string).catch(() => null) }))),
+      Promise.all(assetUrls.map(url => fetchBlob(url).catch(() => null)))
+    ]);
+    if (terminated) return null;
+
+    const assets: Record<string, Blob> = {};
+    assetUrls.forEach((url, i) => { const blob = assetBlobs[i]; if (blob) assets[url] = blob; });
+
+    const id = nextId++;
+    return new Promise<Blob | null>((resolve, reject) => {
+      const detach = () => {
+        active.delete(worker);
+        worker.onmessage = null;
+        worker.onerror = null;
+      };
+      active.set(worker, () => resolve(null));
+
+      worker.onmessage = (e: MessageEvent<RenderResponse>) => {
+        const msg = e.data;
+        if (msg.id !== id) return;
+        if (msg.type === 'progress') { onProgress(msg.count); return; }
+        detach();
+        release(worker);
+        if (msg.type === 'done') resolve(msg.blob);
+        else reject(new Error(msg.message));
+      };
+
+      // Script load failures and crashes: drop the worker so a fresh one can be spawned, then
+      // retry once on another worker and after that on the page
+      worker.onerror = () => {
+        detach();
+        worker.terminate();
+        workers.splice(workers.indexOf(worker), 1);
+        resolve(retried ? renderOnMainThread(job, () => terminated, onProgress) : render(job, onProgress, true));
+      };
+
+      const request: RenderRequest = { id, job: rest, images: items, assets };
+      worker.postMessage(request);
+    });
+  };
+
+  const terminate = () => {
+    if (terminated) return;
+    terminated = true;
+    workers.forEach(w => w.terminate());
+    active.forEach(cancel => cancel());
+    active.clear();
+    waiting.splice(0).forEach(resolve => resolve(null));
+  };
+
+  return { render, terminate };
+};
+
+// Fallback for browsers without OffscreenCanvas: same drawing code on a DOM canvas
+const renderOnMainThread = async (job: RenderJob, isCancelled: () => boolean, onProgress: (count: number) => void): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const { mimeType, quality, maxBytes, fallbackMime, ...options } = job;
+  await drawAsync({ ...options, ctx, isCancelled, onProgress });
+  if (isCancelled()) return null;
+
+  const blob = await encodeCanvas(canvas, { mimeType, quality, maxBytes, fallbackMime });
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  canvas.width = 1; canvas.height = 1;
+  return blob;
+};
+
+// Renders sheets in order. Uses a worker pool when available so the page stays responsive.
+export const renderSheets = async (
+  jobs: RenderJob[],
+  { isCancelled, onProgress }: { isCancelled: () => boolean; onProgress?: (p: RenderProgress) => void }
+): Promise<Blob[]> => {
+  const cellsDone = jobs.map(() => 0);
+  let sheetsDone = 0;
+  const report = () => onProgress?.({ sheets: sheetsDone, cells: cellsDone.reduce((a, b) => a + b, 0) });
+
+  if (!supportsOffscreenRender()) {
+    const blobs: Blob[] = [];
+    for (let i = 0; i < jobs.length; i++) {
+      if (isCancelled()) break;
+      await new Promise(r => setTimeout(r, 100)); // Yield so the progress pill can paint
+      const blob = await renderOnMainThread(jobs[i], isCancelled, count => { cellsDone[i] = count; report(); });
+      if (blob) blobs.push(blob);
+      sheetsDone++;
+      report();
+    }
+    return blobs;
+  }
+
+  const poolSize = Math.min(MAX_WORKERS, jobs.length, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+  const pool = createRenderPool(poolSize);
+  // Poll the cancel flag so in-flight sheets are dropped immediately, not when they finish
+  const watcher = setInterval(() => { if (isCancelled()) pool.terminate(); }, 100);
+
+  try {
+    const results = await Promise.all(jobs.map((job, i) =>
+      pool.render(job, count => { cellsDone[i] = count; report(); }).then(blob => {
+        sheetsDone++;
+        report();
+        return blob;
+      })
+    ));
+    if (isCancelled()) return [];
+    return results.filter((b): b is Blob => !!b);
+  } finally {
+    clearInterval(watcher);
+    pool.terminate();
+  }
+};
@@ -0,0 +1,81 @@
+import { AppSettings, SheetBandPosition } from '../types';
+import type { Canvas2D } from './canvasUtils';
+import { resolveWatermarkText, today } from './watermark';
+
+export const SHEET_BAND_POSITIONS: { position: SheetBandPosition; label: string }[] = [
+  { position: 'top', label: '页眉' },
+  { position: 'bottom', label: '页脚' },
+  { position: 'both', label: '页眉+页脚' },
+];
+
+// Extra canvas height above and below the cells
+export const sheetBandHeights = (settings: AppSettings): { top: number; bottom: number } => {
+  if (!settings.showBand) return { top: 0, bottom: 0 };
+  const h = Math.max(0, Math.round(settings.bandHeight));
+  return {
+    top: settings.bandPosition === 'bottom' ? 0 : h,
+    bottom: settings.bandPosition === 'top' ? 0 : h
+  };
+};
+
+// {date}, {group} (1-based sheet number) and {total} (sheet count)
+export const resolveBandText = (template: string, group: number, total: number): string =>
+  resolveWatermarkText(template, group).replace(/\{total\}/g, String(total)).trim();
+
+interface BandLine {
+  text: string;
+  size: number; // Fraction of the band height
+  color: string;
+  bold?: boolean;
+}
+
+// Fills one band and stacks `left` / `right` lines, vertically centred, against either side.
+// Lines too long for their side are squeezed rather than overlapping the other one.
+const drawBand = (ctx: Canvas2D, y: number, width: number, h: number, left: BandLine[], right: BandLine[], settings: AppSettings) => {
+  ctx.save();
+  ctx.fillStyle = settings.bandBgColor;
+  ctx.fillRect(0, y, width, h);
+  ctx.textBaseline = 'middle';
+  const pad = Math.max(settings.padding, h * 0.3);
+  const setFont = (line: BandLine) => { ctx.font = `${line.bold ? 'bold' : 'normal'} ${line.size * h}px ${settings.bandFontFamily}`; };
+  const column = (lines: BandLine[], align: 'left' | 'right', maxWidth: number) => {
+    const shown = lines.filter(line => line.text);
+    const total = shown.reduce((sum, line) => sum + line.size * h * 1.25, 0);
+    let ty = y + (h - total) / 2;
+    ctx.textAlign = align;
+    shown.forEach(line => {
+      const fontSize = line.size * h;
+      setFont(line);
+      ctx.fillStyle = line.color;
+      ctx.fillText(line.text, align === 'left' ? pad : width - pad, ty + fontSize * 0.625, maxWidth);
+      ty += fontSize * 1.25;
+    });
+  };
+  // The left side (title) gets the room the right side doesn't need
+  const rightWidth = Math.min((width - pad * 2) / 2, Math.max(0, ...right.filter(line => line.text).map(line => {
+    setFont(line);
+    return ctx.measureText(line.text).width;
+  })));
+  const gap = rightWidth ? h * 0.3 : 0;
+  column(left, 'left', Math.max(1, width - pad * 2 - rightWidth - gap));
+  column(right, 'right', Math.max(1, rightWidth));
+  ctx.restore();
+};
+
+// Title and subtitle on the left, date and page on the right. With both bands the header
+// carries title, subtitle and date and the footer only the page indicator.
+export const drawSheetBands = (ctx: Canvas2D, width: number, height: number, settings: AppSettings, group: number, total: number) => {
+  const { top, bottom } = sheetBandHeights(settings);
+  if (!top && !bottom) return;
+  const title: BandLine = { text: resolveBandText(settings.bandTitle, group, total), size: 0.3, color: settings.bandTitleColor, bold: true };
+  const subtitle: BandLine = { text: resolveBandText(settings.bandSubtitle, group, total), size: 0.2, color: settings.bandTextColor };
+  const date: BandLine = { text: settings.bandShowDate ? today() : '', size: 0.2, color: settings.bandTextColor };
+  const page: BandLine = { text: resolveBandText(settings.bandPageFormat, group, total), size: 0.22, color: settings.bandTitleColor, bold: true };
+
+  if (top && bottom) {
+    drawBand(ctx, 0, width, top, [title, subtitle], [date], settings);
+    drawBand(ctx, height - bottom, width, bottom, [], [page], settings);
+  } else {
+    drawBand(ctx, top ? 0 : height - bottom, width, top || bottom, [title, subtitle], [page, date], settings);
+  }
+};
@@ -0,0 +1,37 @@
+import { ImageData } from '../types';
+
+export type SortMode = 'name' | 'size' | 'imported' | 'taken' | 'reverse' | 'shuffle';
+
+export const SORT_MODES: { mode: SortMode; label: string }[] = [
+  { mode: 'name', label: '按文件名' },
+  { mode: 'taken', label: '按拍摄时间' },
+  { mode: 'size', label: '按文件大小' },
+  { mode: 'imported', label: '按导入顺序' },
+  { mode: 'reverse', label: '倒序' },
+  { mode: 'shuffle', label: '随机打乱' },
+];
+
+// Natural order: "img2" before "img10", case-insensitive
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Returns a new array. Sorts are stable, so ties keep their current relative order.
+// 'taken' expects `takenAt` to be filled in already; images without a date go last.
+export const sortImages = (images: ImageData[], mode: SortMode): ImageData[] => {
+  switch (mode) {
+    case 'name': return [...images].sort((a, b) => collator.compare(a.name, b.name));
+    case 'size': return [...images].sort((a, b) => a.size - b.size);
+    case 'imported': return [...images].sort((a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0));
+    case 'taken': return [...images].sort((a, b) => (a.takenAt ?? Number.MAX_SAFE_INTEGER) - (b.takenAt ?? Number.MAX_SAFE_INTEGER));
+    case 'reverse': return [...images].reverse();
+    case 'shuffle': return shuffle(images);
+  }
+};
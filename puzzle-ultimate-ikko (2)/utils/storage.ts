@@ -1,9 +1,48 @@
+import { Preset, Project } from '../types';
+
 const DB_NAME = 'PuzzleProMax_DB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'images';
+const PROJECT_STORE = 'projects';
+const ASSET_STORE = 'assets'; // Overlay / sticker uploads, referenced from project settings
+const PRESET_STORE = 'presets';
+
+// v1 kept one global image list in localStorage; read once when upgrading to v2
+const LEGACY_SETTINGS_KEY = 'puzzleSettings_Ultimate_V3_React';
+const LEGACY_IMAGES_META_KEY = 'puzzleImages_Metadata_V3';
 
 let dbInstance: IDBDatabase | null = null;
 
+export const createId = (): string => Math.random().toString(36).substr(2, 9) + Date.now() + Math.random();
+
+// Wrap the v1 image list and settings into a default project
+const migrateV1Data = (store: IDBObjectStore, transaction: IDBTransaction) => {
+  const savedMeta = localStorage.getItem(LEGACY_IMAGES_META_KEY);
+  const savedSettings = localStorage.getItem(LEGACY_SETTINGS_KEY);
+  if (!savedMeta && !savedSettings) return;
+
+  let images: Project['images'] = [];
+  let settings: Partial<Project['settings']> = {};
+  try { images = savedMeta ? JSON.parse(savedMeta) : []; } catch (e) { console.warn("Legacy image metadata unreadable", e); }
+  try { settings = savedSettings ? JSON.parse(savedSettings) : {}; } catch (e) { console.warn("Legacy settings unreadable", e); }
+
+  const now = Date.now();
+  store.put({
+    id: createId(),
+    name: '默认项目',
+    createdAt: now,
+    updatedAt: now,
+    images,
+    // Object URLs from the old session are dead, drop them
+    settings: { ...settings, overlayImgUrl: null, stickerImgUrl: null }
+  });
+
+  transaction.addEventListener('complete', () => {
+    localStorage.removeItem(LEGACY_IMAGES_META_KEY);
+    localStorage.removeItem(LEGACY_SETTINGS_KEY);
+  });
+};
+
 // Open Database
 const openDB = (): Promise<IDBDatabase> => {
   if (dbInstance) return Promise.resolve(dbInstance);
@@ -19,9 +58,20 @@ const openDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const transaction = (event.target as IDBOpenDBRequest).transaction!;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME); // Key is the Image ID
       }
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        db.createObjectStore(ASSET_STORE); // Key is the Asset ID
+      }
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        const projectStore = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (event.oldVersion === 1) migrateV1Data(projectStore, transaction);
+      }
+      if (!db.objectStoreNames.contains(PRESET_STORE)) {
+        db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event) => {
@@ -118,19 +168,201 @@ export const deleteImageFromDB = async (id: string): Promise<void> => {
   }
 };
 
-// Clear All
-export const clearImagesDB = async (): Promise<void> => {
+// Batch Delete Blobs
+export const deleteBatchImagesFromDB = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction([STORE_NAME], 'readwrite');
+            const store = transaction.objectStore(STORE_NAME);
+
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+
+            ids.forEach(id => store.delete(id));
+        });
+    } catch (e) {
+        console.warn("IndexedDB batch delete failed", e);
+    }
+};
+
+// List Blob IDs (orphan cleanup)
+export const getAllImageKeysFromDB = async (): Promise<string[]> => {
   try {
       const db = await openDB();
       return new Promise((resolve, reject) => {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.clear();
+        const transaction = db.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).getAllKeys();
+
+        request.onsuccess = () => resolve(request.result as string[]);
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB key list failed", e);
+      return [];
+  }
+};
+
+// --- Assets ---
+
+export const saveAssetToDB = async (id: string, blob: Blob): Promise<void> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([ASSET_STORE], 'readwrite');
+        const request = transaction.objectStore(ASSET_STORE).put(blob, id);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB asset save failed", e);
+  }
+};
+
+export const getAssetFromDB = async (id: string): Promise<Blob | undefined> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([ASSET_STORE], 'readonly');
+        const request = transaction.objectStore(ASSET_STORE).get(id);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB asset get failed", e);
+      return undefined;
+  }
+};
+
+export const deleteAssetsFromDB = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([ASSET_STORE], 'readwrite');
+        const store = transaction.objectStore(ASSET_STORE);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+
+        ids.forEach(id => store.delete(id));
+      });
+  } catch (e) {
+      console.warn("IndexedDB asset delete failed", e);
+  }
+};
+
+// --- Projects ---
+
+export const getAllProjectsFromDB = async (): Promise<Project[]> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PROJECT_STORE], 'readonly');
+        const request = transaction.objectStore(PROJECT_STORE).getAll();
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB project list failed", e);
+      return [];
+  }
+};
+
+export const getProjectFromDB = async (id: string): Promise<Project | undefined> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PROJECT_STORE], 'readonly');
+        const request = transaction.objectStore(PROJECT_STORE).get(id);
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB project get failed", e);
+      return undefined;
+  }
+};
+
+export const saveProjectToDB = async (project: Project): Promise<void> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PROJECT_STORE], 'readwrite');
+        const request = transaction.objectStore(PROJECT_STORE).put(project);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB project save failed", e);
+  }
+};
+
+export const deleteProjectFromDB = async (id: string): Promise<void> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PROJECT_STORE], 'readwrite');
+        const request = transaction.objectStore(PROJECT_STORE).delete(id);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB project delete failed", e);
+  }
+};
+
+// --- Presets ---
+
+export const getAllPresetsFromDB = async (): Promise<Preset[]> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PRESET_STORE], 'readonly');
+        const request = transaction.objectStore(PRESET_STORE).getAll();
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB preset list failed", e);
+      return [];
+  }
+};
+
+export const savePresetToDB = async (preset: Preset): Promise<void> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PRESET_STORE], 'readwrite');
+        const request = transaction.objectStore(PRESET_STORE).put(preset);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+  } catch (e) {
+      console.warn("IndexedDB preset save failed", e);
+  }
+};
+
+export const deletePresetFromDB = async (id: string): Promise<void> => {
+  try {
+      const db = await openDB();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction([PRESET_STORE], 'readwrite');
+        const request = transaction.objectStore(PRESET_STORE).delete(id);
 
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       });
   } catch (e) {
-      console.warn("IndexedDB clear failed", e);
+      console.warn("IndexedDB preset delete failed", e);
   }
 };
@@ -0,0 +1,62 @@
+// Layout templates: fixed arrangements of cells on a grid, where some cells span several
+// rows/columns. Each sheet repeats the template; cells are filled in the order listed.
+
+export interface TemplateCell {
+  x: number; // Grid column / row of the top-left corner
+  y: number;
+  w?: number; // Span in columns / rows (default 1)
+  h?: number;
+  hero?: boolean; // Pinned images go here first
+}
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  cols: number;
+  rows: number;
+  cells: TemplateCell[];
+}
+
+// Fills the rest of a cols x rows grid with 1x1 cells, row by row, skipping covered units
+const withFill = (cols: number, rows: number, cells: TemplateCell[]): TemplateCell[] => {
+  const taken = new Set<string>();
+  cells.forEach(c => {
+    for (let dy = 0; dy < (c.h || 1); dy++)
+      for (let dx = 0; dx < (c.w || 1); dx++) taken.add(`${c.x + dx},${c.y + dy}`);
+  });
+  const fill: TemplateCell[] = [];
+  for (let y = 0; y < rows; y++)
+    for (let x = 0; x < cols; x++) if (!taken.has(`${x},${y}`)) fill.push({ x, y });
+  return [...cells, ...fill];
+};
+
+export const BUILT_IN_TEMPLATES: LayoutTemplate[] = [
+  { id: 'hero-2x2-4col', name: '大图 2×2 + 8', cols: 4, rows: 3, cells: withFill(4, 3, [{ x: 0, y: 0, w: 2, h: 2, hero: true }]) },
+  { id: 'magazine-1-4', name: '杂志 1+4', cols: 4, rows: 2, cells: withFill(4, 2, [{ x: 0, y: 0, w: 2, h: 2, hero: true }]) },
+  { id: 'cover-1-5', name: '封面 1+5', cols: 3, rows: 3, cells: withFill(3, 3, [{ x: 0, y: 0, w: 2, h: 2, hero: true }]) },
+  { id: 'banner-1-6', name: '横幅 1+6', cols: 3, rows: 3, cells: withFill(3, 3, [{ x: 0, y: 0, w: 3, h: 1, hero: true }]) },
+  { id: 'duo-hero', name: '双大图 + 4', cols: 4, rows: 4, cells: withFill(4, 4, [{ x: 0, y: 0, w: 2, h: 2, hero: true }, { x: 2, y: 2, w: 2, h: 2, hero: true }]) },
+];
+
+export const getTemplate = (id: string): LayoutTemplate =>
+  BUILT_IN_TEMPLATES.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+// Order in which images should be handed to the template layout: pinned images take the
+// hero cells sheet by sheet, everything else keeps its order around them.
+// Returns indices into `pinned`.
+export const orderForTemplate = (pinned: boolean[], template: LayoutTemplate): number[] => {
+  const heroes: number[] = [];
+  const rest: number[] = [];
+  pinned.forEach((p, i) => (p ? heroes : rest).push(i));
+  if (!heroes.length) return rest;
+
+  const order: number[] = [];
+  while (heroes.length || rest.length) {
+    for (const cell of template.cells) {
+      const next = cell.hero && heroes.length ? heroes.shift() : rest.length ? rest.shift() : heroes.shift();
+      if (next === undefined) break;
+      order.push(next);
+    }
+  }
+  return order;
+};
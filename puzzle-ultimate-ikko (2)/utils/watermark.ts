@@ -0,0 +1,43 @@
+import { AppSettings } from '../types';
+import type { Canvas2D } from './canvasUtils';
+
+// Local date as YYYY-MM-DD
+export const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// {date} is the render date, {group} the 1-based sheet number
+export const resolveWatermarkText = (template: string, group: number): string =>
+  template.replace(/\{date\}/g, today()).replace(/\{group\}/g, String(group));
+
+// Repeats the text over the whole sheet along rotated rows, every other row shifted by half a
+// tile. Size and spacing are % of the sheet width, so previews and exports match.
+export const drawWatermark = (ctx: Canvas2D, width: number, height: number, settings: AppSettings, group: number) => {
+  const text = resolveWatermarkText(settings.watermarkText, group).trim();
+  if (!text) return;
+  const fontSize = Math.max(4, width * settings.watermarkSize / 100);
+  const spacing = width * settings.watermarkSpacing / 100;
+
+  ctx.save();
+  ctx.globalAlpha = settings.watermarkOpacity;
+  ctx.globalCompositeOperation = settings.watermarkBlend;
+  ctx.font = `${settings.watermarkFontWeight} ${fontSize}px ${settings.watermarkFontFamily}`;
+  ctx.fillStyle = settings.watermarkColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const stepX = ctx.measureText(text).width + spacing;
+  const stepY = fontSize + spacing;
+  // Rotating about the centre, rows must reach the corners: cover the diagonal both ways
+  const reach = Math.hypot(width, height) / 2;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((settings.watermarkAngle * Math.PI) / 180);
+  for (let row = -Math.ceil(reach / stepY); row <= Math.ceil(reach / stepY); row++) {
+    const shift = Math.abs(row) % 2 ? stepX / 2 : 0;
+    for (let x = -Math.ceil(reach / stepX) * stepX - shift; x <= reach + stepX; x += stepX) {
+      ctx.fillText(text, x, row * stepY);
+    }
+  }
+  ctx.restore();
+};